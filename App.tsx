@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   Play, 
   Pause, 
@@ -8,22 +8,103 @@ import {
   Languages, 
   Mic, 
   Wand2,
-  Volume2
+  Volume2,
+  FileText,
+  Upload,
+  X,
+  ArrowRight,
+  History,
+  Users,
+  Repeat,
+  EyeOff,
+  SkipBack,
+  SkipForward,
+  FileAudio,
+  Music,
+  SpellCheck,
+  BookA,
+  Ruler,
+  Layers
 } from 'lucide-react';
 import { SeekBar } from './components/SeekBar';
 import { SubtitleDisplay } from './components/SubtitleDisplay';
-import { processContent, alignSegments, base64ToWavBlob } from './services/geminiService';
-import { Language, VOICES, SubtitleSegment, VoiceOption } from './types';
+import { SubtitleEditor } from './components/SubtitleEditor';
+import { GlossaryEditor } from './components/GlossaryEditor';
+import { HistorySidebar } from './components/HistorySidebar';
+import { BatchPanel } from './components/BatchPanel';
+import { ErrorBanner, AppError } from './components/ErrorBanner';
+import { processSubtitles, processDialogue, alignSegments, resynthesizeSegment, speakTranslations } from './services/pipelineService';
+import { parseDialogue, listSpeakers, assignVoices } from './services/dialogueService';
+import { parseLexicon, formatLexicon } from './services/markupService';
+import { checkGlossary } from './services/glossaryService';
+import { applySegmentationRules, validateSegments, DEFAULT_SEGMENTATION_RULES } from './services/segmentationService';
+import { createChunkJob, runChunkJob, completedChunks } from './services/jobService';
+import { updateSegment, splitSegment, mergeWithNext, moveSegment, deleteSegment } from './services/segmentEditService';
+import { useEditHistory } from './hooks/useEditHistory';
+import { useDrill } from './hooks/useDrill';
+import { useWaveform } from './hooks/useWaveform';
+import { useBatch } from './hooks/useBatch';
+import { PROVIDERS, getProvider } from './services/providers';
+import { withCache } from './services/cacheService';
+import { detectLanguage, resolveSourceLanguage, resolveTargets, voicesForLanguage } from './services/languageService';
+import { subtitlesToBlob, parseSubtitles } from './services/subtitleService';
+import { base64ToPcm, pcmToWavBlob } from './services/audioUtils';
+import { postProcessAudio, postProcessSegment, decodeMusicFile, DEFAULT_POST_PROCESS } from './services/postProcessService';
+import { exportAudio, AUDIO_EXPORT_FORMATS, EXPORT_SAMPLE_RATES, OPUS_SAMPLE_RATE } from './services/audioExportService';
+import { listProjects, getProject, saveProject, updateProject, updateProjectAudio, renameProject, duplicateProject, deleteProject, createProjectId } from './services/projectStore';
+import { exportProjectBundle, importProjectBundle, BUNDLE_EXTENSION } from './services/projectBundle';
+import { parseBatchCsv, textFileItem, buildBatchZip } from './services/batchService';
+import { downloadBlob } from './services/downloadService';
+import { Language, LANGUAGES, VOICES, AUTO_DETECT, SourceLanguage, SubtitleSegment, VoiceOption, Project, ProjectSummary, EditableTrack, ChunkJob, JobProgress, SubtitleFormat, SubtitleTrack, SynthesisMode, TranslationAudioMode, DrillSettings, LoopRange, AudioExportFormat, PostProcessSettings, GlossaryEntry, SegmentationRules } from './types';
+
+const PLAYBACK_RATES = [0.5, 0.75, 1.0, 1.25, 1.5, 2.0];
+
+// Elements where keys belong to the user's typing, not to player shortcuts
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 function App() {
   // State
   const [inputText, setInputText] = useState("");
-  const [selectedLang, setSelectedLang] = useState<Language>(Language.ENGLISH);
-  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>(VOICES[0]);
+  const [sourceSelection, setSourceSelection] = useState<SourceLanguage>(AUTO_DETECT);
+  const [targetLangs, setTargetLangs] = useState<Language[]>([Language.VIETNAMESE]);
+  const [selectedVoice, setSelectedVoice] = useState<VoiceOption>(voicesForLanguage(Language.ENGLISH)[0]);
+  const [providerId, setProviderId] = useState(PROVIDERS[0].id);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [appError, setAppError] = useState<AppError | null>(null);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+  // A failed or cancelled long-document job that can resume from its finished chunks
+  const [pendingJob, setPendingJob] = useState<ChunkJob | null>(null);
+  const [importedCues, setImportedCues] = useState<SubtitleSegment[] | null>(null);
+  const [importedFileName, setImportedFileName] = useState<string | null>(null);
+  const [synthesisMode, setSynthesisMode] = useState<SynthesisMode>('single');
+  const [segmentGap, setSegmentGap] = useState(0.3);
+  const [bypassCache, setBypassCache] = useState(false);
+  // Pronunciation lexicon as typed, one `word = respelling` per line
+  const [lexiconText, setLexiconText] = useState("");
+  const [isLexiconOpen, setIsLexiconOpen] = useState(false);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [segmentation, setSegmentation] = useState<SegmentationRules>(DEFAULT_SEGMENTATION_RULES);
+  const [dialogueMode, setDialogueMode] = useState(false);
+  // Speaker tag -> voice id, as chosen by the user
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, string>>({});
+  const [translationAudio, setTranslationAudio] = useState<TranslationAudioMode>('off');
+  const [translationVoiceId, setTranslationVoiceId] = useState<string | null>(null);
+  const [translationPause, setTranslationPause] = useState(0.8);
+  const [postProcess, setPostProcess] = useState<PostProcessSettings>(DEFAULT_POST_PROCESS);
+  // Local music file for the background bed; mixed into the audio, never saved on its own
+  const [music, setMusic] = useState<{ name: string; samples: Float32Array } | null>(null);
   
   // Player State
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  // Translated-only track, offered as a separate download for this session
+  const [translatedAudioUrl, setTranslatedAudioUrl] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<AudioExportFormat>('mp3');
+  const [exportSampleRate, setExportSampleRate] = useState(44100);
+  const [exportStereo, setExportStereo] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
@@ -34,8 +115,123 @@ function App() {
   const [playbackRate, setPlaybackRate] = useState(1.0);
   const [volume, setVolume] = useState(1.0);
 
+  // Drill Settings
+  const [drill, setDrill] = useState<DrillSettings>({ enabled: false, repeats: 3, pauseFactor: 1 });
+  const [loopRange, setLoopRange] = useState<LoopRange | null>(null);
+  const [concealOriginal, setConcealOriginal] = useState(false);
+  const [concealTranslations, setConcealTranslations] = useState(false);
+  // Screen-reader feedback for keyboard shortcuts
+  const [announcement, setAnnouncement] = useState("");
+
+  // Subtitle Editing
+  const [isEditing, setIsEditing] = useState(false);
+  const [resynthIndex, setResynthIndex] = useState<number | null>(null);
+  const editHistory = useEditHistory<EditableTrack>();
+
+  // Project History
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const batch = useBatch();
+
+  // Export Settings
+  const [subtitleTrack, setSubtitleTrack] = useState<SubtitleTrack>('both');
+
   // Refs
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const subtitleInputRef = useRef<HTMLInputElement | null>(null);
+  const musicInputRef = useRef<HTMLInputElement | null>(null);
+  // Raw PCM of the current track, used to snap subtitle boundaries to real pauses
+  const pcmRef = useRef<Uint8Array | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Segments as last written to the project store, to skip redundant saves
+  const savedSegmentsRef = useRef<SubtitleSegment[] | null>(null);
+
+  const drillState = useDrill(audioRef, segments, drill, loopRange);
+  // pcmRef is replaced together with audioUrl, so this follows every new or edited track
+  const waveform = useWaveform(audioUrl ? pcmRef.current : null);
+
+  // Language & voice derived from the input
+  const detectedLang = useMemo(() => detectLanguage(inputText), [inputText]);
+  const sourceLang = resolveSourceLanguage(inputText, sourceSelection);
+  const availableVoices = useMemo(() => voicesForLanguage(sourceLang), [sourceLang]);
+
+  // Never translate into the language being read
+  const activeTargets = useMemo(() => resolveTargets(targetLangs, sourceLang), [targetLangs, sourceLang]);
+
+  // Dialogue speakers and their voices; unassigned speakers get distinct defaults
+  const lexicon = useMemo(() => parseLexicon(lexiconText), [lexiconText]);
+  const glossaryIssues = useMemo(() => checkGlossary(segments, glossary), [segments, glossary]);
+  const ruleViolations = useMemo(
+    () => (segmentation.enabled ? validateSegments(segments, segmentation) : []),
+    [segments, segmentation]
+  );
+  const dialogueLines = useMemo(() => (dialogueMode ? parseDialogue(inputText) : []), [dialogueMode, inputText]);
+  const speakers = useMemo(() => listSpeakers(dialogueLines), [dialogueLines]);
+  const resolvedSpeakerVoices = useMemo(
+    () => assignVoices(speakers, speakerVoices, availableVoices),
+    [speakers, speakerVoices, availableVoices]
+  );
+  // Speaker tag -> voice name, as the pipeline expects
+  const speakerVoiceNames = useMemo(
+    () => Object.fromEntries(
+      Object.entries(resolvedSpeakerVoices).map(([speaker, id]) => [speaker, VOICES.find(v => v.id === id)?.name ?? selectedVoice.name])
+    ),
+    [resolvedSpeakerVoices, selectedVoice]
+  );
+
+  // The translation is spoken in the first target language
+  const spokenLanguage = activeTargets[0];
+  const translationVoices = useMemo(() => voicesForLanguage(spokenLanguage), [spokenLanguage]);
+  const translationVoice = translationVoices.find(v => v.id === translationVoiceId) ?? translationVoices[0];
+
+  // Dialogue mode needs at least one "Speaker: line" turn
+  const canGenerate = inputText.trim() !== '' && (!dialogueMode || importedCues !== null || dialogueLines.length > 0);
+
+  const toggleTarget = (lang: Language) => {
+    setTargetLangs(prev => {
+      if (!prev.includes(lang)) return [...prev, lang];
+      // Keep at least one target selected
+      return prev.length > 1 ? prev.filter(l => l !== lang) : prev;
+    });
+  };
+
+  // Keep the selected voice suited to the source language
+  useEffect(() => {
+    if (!availableVoices.some(v => v.id === selectedVoice.id)) {
+      setSelectedVoice(availableVoices[0]);
+    }
+  }, [availableVoices, selectedVoice]);
+
+  const refreshProjects = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to load project history:", error);
+    }
+  };
+
+  useEffect(() => {
+    refreshProjects();
+  }, []);
+
+  // Persist segment changes (alignment, edits) to the open project
+  useEffect(() => {
+    if (!currentProjectId || segments.length === 0 || segments === savedSegmentsRef.current) return;
+    const timer = setTimeout(() => {
+      savedSegmentsRef.current = segments;
+      updateProject(currentProjectId, { segments })
+        .then(refreshProjects)
+        .catch(error => console.error("Failed to save project:", error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [currentProjectId, segments]);
+
+  // A paused job only resumes with the exact input and settings it started with
+  useEffect(() => {
+    setPendingJob(null);
+  }, [inputText, sourceLang, activeTargets, selectedVoice, providerId, synthesisMode, segmentGap, dialogueMode, lexicon, glossary]);
 
   // Initialize Audio Element
   useEffect(() => {
@@ -46,16 +242,20 @@ function App() {
     const updateTime = () => setCurrentTime(audio.currentTime);
     const updateDuration = () => setDuration(audio.duration);
     const onEnded = () => setIsPlaying(false);
+    // Drill replays can restart a track that has ended
+    const onPlay = () => setIsPlaying(true);
 
     audio.addEventListener('timeupdate', updateTime);
     audio.addEventListener('loadedmetadata', updateDuration);
     audio.addEventListener('ended', onEnded);
+    audio.addEventListener('play', onPlay);
 
     return () => {
       audio.pause();
       audio.removeEventListener('timeupdate', updateTime);
       audio.removeEventListener('loadedmetadata', updateDuration);
       audio.removeEventListener('ended', onEnded);
+      audio.removeEventListener('play', onPlay);
     };
   }, []);
 
@@ -72,7 +272,7 @@ function App() {
     if (duration > 0 && segments.length > 0) {
       // If we haven't aligned them based on real duration yet
       if (segments[segments.length - 1].endTime === 0) {
-        setSegments(prev => alignSegments(prev, duration));
+        setSegments(prev => alignSegments(prev, duration, pcmRef.current ?? undefined));
       }
     }
   }, [duration, segments]);
@@ -90,49 +290,421 @@ function App() {
     }
   }, [currentTime, segments]);
 
-  const handleGenerate = async () => {
-    if (!inputText.trim()) return;
-    setIsGenerating(true);
+  const handleImportSubtitles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const cues = parseSubtitles(await file.text());
+      setImportedCues(cues);
+      setImportedFileName(file.name);
+      setInputText(cues.map(c => c.original).join('\n'));
+    } catch (error) {
+      console.error("Subtitle import failed:", error);
+      setAppError({ error, context: "Subtitle import failed." });
+    }
+  };
+
+  const handleImportMusic = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setMusic({ name: file.name, samples: await decodeMusicFile(file) });
+    } catch (error) {
+      console.error("Music import failed:", error);
+      setAppError({ error, context: `"${file.name}" could not be decoded as audio.` });
+    }
+  };
+
+  const clearImportedSubtitles = () => {
+    setImportedCues(null);
+    setImportedFileName(null);
+    setInputText("");
+  };
+
+  const resetPlayer = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.src = "";
+    }
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+    if (translatedAudioUrl) URL.revokeObjectURL(translatedAudioUrl);
     setAudioUrl(null);
+    setTranslatedAudioUrl(null);
     setSegments([]);
+    pcmRef.current = null;
+    setIsPlaying(false);
     setCurrentTime(0);
     setDuration(0);
-    
-    // Cleanup previous audio source
+    setIsEditing(false);
+    setLoopRange(null);
+    editHistory.clear();
+  };
+
+  const loadTrack = (pcm: Uint8Array, trackSegments: SubtitleSegment[]) => {
+    pcmRef.current = pcm;
+    savedSegmentsRef.current = trackSegments;
+
+    // Convert raw PCM to WAV Blob
+    const url = URL.createObjectURL(pcmToWavBlob(pcm));
+    setAudioUrl(url);
+    setSegments(trackSegments);
+
     if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = "";
+      audioRef.current.src = url;
+      audioRef.current.load();
+      // Re-apply settings after load
+      audioRef.current.playbackRate = playbackRate;
+      audioRef.current.volume = volume;
     }
+  };
+
+  /**
+   * Swaps in edited audio while keeping the playback position.
+   */
+  const replaceAudio = (pcm: Uint8Array) => {
+    pcmRef.current = pcm;
+    const url = URL.createObjectURL(pcmToWavBlob(pcm));
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+    setAudioUrl(url);
+
+    const audio = audioRef.current;
+    if (audio) {
+      const position = audio.currentTime;
+      const wasPlaying = !audio.paused;
+      audio.src = url;
+      audio.load();
+      audio.addEventListener('loadedmetadata', () => {
+        audio.currentTime = Math.min(position, audio.duration);
+        audio.playbackRate = playbackRate;
+        audio.volume = volume;
+        if (wasPlaying) audio.play();
+      }, { once: true });
+    }
+
+    if (currentProjectId) {
+      updateProjectAudio(currentProjectId, pcm)
+        .then(refreshProjects)
+        .catch(error => console.error("Failed to save project audio:", error));
+    }
+  };
+
+  const currentTrack = (): EditableTrack => ({ segments, pcm: pcmRef.current });
+
+  const applyTrack = (track: EditableTrack) => {
+    setSegments(track.segments);
+    if (track.pcm && track.pcm !== pcmRef.current) {
+      replaceAudio(track.pcm);
+    }
+  };
+
+  // Records the current track for undo, then applies the edit
+  const commitEdit = (next: EditableTrack) => {
+    editHistory.record(currentTrack());
+    applyTrack(next);
+  };
+
+  const handleSegmentChange = async (index: number, changes: Partial<Omit<SubtitleSegment, 'id'>>) => {
+    const previous = currentTrack();
+    const edited: EditableTrack = { segments: updateSegment(segments, index, changes), pcm: previous.pcm };
+
+    // A new original text needs new audio for just this segment
+    if (changes.original === undefined || !previous.pcm) {
+      commitEdit(edited);
+      return;
+    }
+    // Show the new text while its audio is made, but only record the edit once it succeeds
+    applyTrack(edited);
+    setResynthIndex(index);
+    try {
+      const processSegment = postProcess.enabled
+        ? (pcm: Uint8Array, startTime: number) => postProcessSegment(pcm, startTime, postProcess, music?.samples)
+        : undefined;
+      const resynthesized = await resynthesizeSegment(
+        withCache(getProvider(providerId)), edited, index, selectedVoice.name, speakerVoiceNames, lexicon, processSegment
+      );
+      editHistory.record(previous);
+      applyTrack(resynthesized);
+    } catch (error) {
+      console.error("Re-synthesis failed:", error);
+      setAppError({ error, context: "Re-synthesizing the edited segment failed, so the change was reverted." });
+      applyTrack(previous);
+    } finally {
+      setResynthIndex(null);
+    }
+  };
+
+  const handleUndo = () => {
+    const previous = editHistory.undo(currentTrack());
+    if (previous) applyTrack(previous);
+  };
+
+  const handleRedo = () => {
+    const next = editHistory.redo(currentTrack());
+    if (next) applyTrack(next);
+  };
+
+  const handleGenerate = async (resumeJob?: ChunkJob) => {
+    if (!canGenerate) return;
+    setIsGenerating(true);
+    setAppError(null);
+    resetPlayer();
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const job = resumeJob ?? createChunkJob(inputText);
+    setPendingJob(null);
     
     try {
-      const result = await processContent(inputText, selectedLang, selectedVoice.name);
-      
-      // Convert raw PCM base64 to WAV Blob
-      const blob = base64ToWavBlob(result.audioBase64);
-      const url = URL.createObjectURL(blob);
+      const provider = withCache(getProvider(providerId), { bypass: bypassCache });
+      const result = importedCues
+        ? await processSubtitles(provider, importedCues, sourceLang, activeTargets, selectedVoice.name, {
+            lexicon,
+            glossary,
+            signal: controller.signal
+          })
+        : dialogueMode
+        ? await processDialogue(provider, dialogueLines, sourceLang, activeTargets, selectedVoice.name, speakerVoiceNames, {
+            segmentGap,
+            lexicon,
+            glossary,
+            signal: controller.signal
+          })
+        : await runChunkJob(job, provider, sourceLang, activeTargets, selectedVoice.name, {
+            synthesisMode,
+            segmentGap,
+            lexicon,
+            glossary,
+            signal: controller.signal,
+            onProgress: setJobProgress
+          });
       
-      setAudioUrl(url);
-      setSegments(result.segments);
-      
-      if (audioRef.current) {
-        audioRef.current.src = url;
-        audioRef.current.load();
-        // Re-apply settings after load
-        audioRef.current.playbackRate = playbackRate;
-        audioRef.current.volume = volume;
+      let pcm = base64ToPcm(result.audioBase64);
+      let resultSegments = result.segments;
+
+      if (translationAudio !== 'off') {
+        const spoken = await speakTranslations(provider, { segments: resultSegments, pcm }, spokenLanguage, translationVoice.name, {
+          mode: translationAudio,
+          pause: translationPause,
+          lexicon,
+          signal: controller.signal
+        });
+        if (spoken.interleaved?.pcm) {
+          pcm = spoken.interleaved.pcm;
+          resultSegments = spoken.interleaved.segments;
+        }
+        if (spoken.translated?.pcm) {
+          const translatedPcm = postProcess.enabled
+            ? postProcessAudio(spoken.translated.pcm, [], postProcess, music?.samples).pcm
+            : spoken.translated.pcm;
+          setTranslatedAudioUrl(URL.createObjectURL(pcmToWavBlob(translatedPcm)));
+        }
       }
+      if (postProcess.enabled) {
+        ({ pcm, segments: resultSegments } = postProcessAudio(pcm, resultSegments, postProcess, music?.samples));
+      }
+      // Readability rules only reshape the subtitles, once the audio no longer depends on them
+      if (segmentation.enabled) {
+        resultSegments = applySegmentationRules(resultSegments, segmentation);
+      }
+      loadTrack(pcm, resultSegments);
+
+      // Every generation becomes a project so it survives a refresh
+      const now = Date.now();
+      const project: Project = {
+        id: createProjectId(),
+        name: importedFileName ?? (inputText.trim().slice(0, 40) || 'Untitled'),
+        createdAt: now,
+        updatedAt: now,
+        inputText,
+        importedCues,
+        importedFileName,
+        settings: {
+          sourceSelection,
+          targetLangs,
+          voiceId: selectedVoice.id,
+          providerId,
+          synthesisMode,
+          segmentGap,
+          dialogueMode,
+          speakerVoices: resolvedSpeakerVoices,
+          translationAudio,
+          translationVoiceId: translationVoice.id,
+          translationPause,
+          postProcess,
+          lexicon,
+          glossary,
+          segmentation
+        },
+        segments: resultSegments,
+        pcm
+      };
+      setCurrentProjectId(project.id);
+      saveProject(project)
+        .then(refreshProjects)
+        .catch(error => console.error("Failed to save project:", error));
 
     } catch (error) {
+      // Keep finished chunks so the job can resume instead of starting over
+      if (!importedCues && completedChunks(job) > 0) {
+        setPendingJob(job);
+      }
+      if (controller.signal.aborted) return;
       console.error("Generation failed:", error);
-      alert("Failed to generate content. Please check your API Key and try again.");
+      const canResume = !importedCues && completedChunks(job) > 0;
+      setAppError({
+        error,
+        context: canResume
+          ? `Generation stopped after ${completedChunks(job)} of ${job.chunks.length} chunks.`
+          : "Generation failed.",
+        retry: () => handleGenerate(canResume ? job : undefined)
+      });
     } finally {
+      abortRef.current = null;
+      setJobProgress(null);
       setIsGenerating(false);
     }
   };
 
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  const applyProject = (project: Project) => {
+    resetPlayer();
+    setInputText(project.inputText);
+    setImportedCues(project.importedCues);
+    setImportedFileName(project.importedFileName);
+    setSourceSelection(project.settings.sourceSelection);
+    setTargetLangs(project.settings.targetLangs);
+    setSelectedVoice(VOICES.find(v => v.id === project.settings.voiceId) ?? VOICES[0]);
+    setProviderId(project.settings.providerId);
+    setSynthesisMode(project.settings.synthesisMode);
+    setSegmentGap(project.settings.segmentGap);
+    setDialogueMode(project.settings.dialogueMode ?? false);
+    setSpeakerVoices(project.settings.speakerVoices ?? {});
+    setTranslationAudio(project.settings.translationAudio ?? 'off');
+    setTranslationVoiceId(project.settings.translationVoiceId ?? null);
+    setTranslationPause(project.settings.translationPause ?? 0.8);
+    setPostProcess(project.settings.postProcess ?? DEFAULT_POST_PROCESS);
+    setLexiconText(formatLexicon(project.settings.lexicon ?? []));
+    setGlossary(project.settings.glossary ?? []);
+    setSegmentation(project.settings.segmentation ?? DEFAULT_SEGMENTATION_RULES);
+    setCurrentProjectId(project.id);
+    if (project.pcm) {
+      loadTrack(project.pcm, project.segments);
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (project) {
+        applyProject(project);
+        setIsHistoryOpen(false);
+      }
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      setAppError({ error, context: "Opening the project failed." });
+    }
+  };
+
+  const handleNewProject = () => {
+    resetPlayer();
+    setCurrentProjectId(null);
+    setInputText("");
+    setImportedCues(null);
+    setImportedFileName(null);
+    setIsHistoryOpen(false);
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      refreshProjects();
+    } catch (error) {
+      console.error("Project rename failed:", error);
+      setAppError({ error, context: "Could not rename the project." });
+    }
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      await duplicateProject(id);
+      refreshProjects();
+    } catch (error) {
+      console.error("Project duplication failed:", error);
+      setAppError({ error, context: "Could not duplicate the project." });
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === currentProjectId) setCurrentProjectId(null);
+      refreshProjects();
+    } catch (error) {
+      console.error("Project deletion failed:", error);
+      setAppError({ error, context: "Could not delete the project." });
+    }
+  };
+
+  const handleExportProject = async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (!project) return;
+      downloadBlob(exportProjectBundle(project), `${project.name.replace(/[^\p{L}\p{N}_-]+/gu, '-') || 'project'}${BUNDLE_EXTENSION}`);
+    } catch (error) {
+      console.error("Project export failed:", error);
+      setAppError({ error, context: "Could not export the project." });
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const project = await importProjectBundle(file);
+      await saveProject(project);
+      await refreshProjects();
+      applyProject(project);
+      setIsHistoryOpen(false);
+    } catch (error) {
+      console.error("Project import failed:", error);
+      setAppError({ error, context: "Project import failed." });
+    }
+  };
+
+  const handleAddBatchFiles = async (files: File[]) => {
+    try {
+      const added = await Promise.all(files.map(async file => {
+        const content = await file.text();
+        return file.name.toLowerCase().endsWith('.csv') ? parseBatchCsv(content) : [textFileItem(file.name, content)];
+      }));
+      batch.add(added.flat());
+    } catch (error) {
+      console.error("Batch import failed:", error);
+      setAppError({ error, context: "Batch import failed." });
+    }
+  };
+
+  // Batch items use the current settings unless their row names a language or voice
+  const handleRunBatch = (concurrency: number, indexes?: number[]) =>
+    batch.run(withCache(getProvider(providerId)), sourceSelection, targetLangs, selectedVoice.id, {
+      concurrency,
+      synthesisMode,
+      segmentGap,
+      lexicon,
+      glossary
+    }, indexes);
+
+  const downloadBatchZip = (format: SubtitleFormat) => {
+    downloadBlob(buildBatchZip(batch.items, format, subtitleTrack), 'linguavoice-batch.zip');
+  };
+
   const togglePlay = () => {
     if (!audioRef.current || !audioUrl) return;
     if (isPlaying) {
+      drillState.cancel();
       audioRef.current.pause();
     } else {
       audioRef.current.play();
@@ -141,6 +713,7 @@ function App() {
   };
 
   const handleSeek = (time: number) => {
+    drillState.cancel();
     if (audioRef.current) {
       audioRef.current.currentTime = time;
       setCurrentTime(time);
@@ -148,11 +721,111 @@ function App() {
   };
 
   const skip = (amount: number) => {
+    drillState.cancel();
     if (audioRef.current) {
       audioRef.current.currentTime = Math.min(Math.max(audioRef.current.currentTime + amount, 0), duration);
     }
   };
 
+  /**
+   * Jumps to the previous or next sentence. Going back from well inside a sentence
+   * restarts it first, like the previous-track button on a music player.
+   */
+  const skipSentence = (direction: -1 | 1) => {
+    if (segments.length === 0) return;
+    const time = audioRef.current?.currentTime ?? currentTime;
+    const target = direction === 1
+      ? segments.find(seg => seg.startTime > time + 0.05)
+      : [...segments].reverse().find(seg => seg.startTime < time - 1);
+    handleSeek(target?.startTime ?? (direction === 1 ? time : 0));
+  };
+
+  /**
+   * Sets one end of the A-B repeat range at the playback position.
+   */
+  const setLoopPoint = (point: 'start' | 'end') => {
+    if (point === 'start') {
+      setLoopRange(prev => ({ start: currentTime, end: prev && prev.end > currentTime ? prev.end : duration }));
+    } else {
+      setLoopRange(prev => {
+        const start = prev?.start ?? 0;
+        return currentTime > start ? { start, end: currentTime } : prev;
+      });
+    }
+  };
+
+  const downloadSubtitles = (format: SubtitleFormat) => {
+    if (segments.length === 0) return;
+    downloadBlob(subtitlesToBlob(segments, format, subtitleTrack), `linguavoice-subtitles.${format}`);
+  };
+
+  const downloadCompressedAudio = async () => {
+    if (!pcmRef.current || isExporting) return;
+    setIsExporting(true);
+    try {
+      const blob = await exportAudio(pcmRef.current, {
+        format: exportFormat,
+        sampleRate: exportSampleRate,
+        stereo: exportStereo,
+      });
+      downloadBlob(blob, `linguavoice-audio.${AUDIO_EXPORT_FORMATS[exportFormat].extension}`);
+    } catch (error) {
+      console.error(error);
+      setAppError({ error, context: `${AUDIO_EXPORT_FORMATS[exportFormat].label} export failed.` });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Player shortcuts: space plays/pauses, arrows skip by the seek step,
+   * [ and ] change speed, and , and . jump by sentence.
+   */
+  const handleShortcut = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isTextEntry(e.target)) return;
+    if (!audioUrl || isEditing) return;
+
+    switch (e.key) {
+      case ' ':
+        // A focused button already reacts to space by clicking
+        if (e.target instanceof HTMLButtonElement) return;
+        togglePlay();
+        break;
+      case 'ArrowLeft':
+        skip(-seekStep);
+        break;
+      case 'ArrowRight':
+        skip(seekStep);
+        break;
+      case '[':
+      case ']': {
+        const index = PLAYBACK_RATES.indexOf(playbackRate);
+        const next = PLAYBACK_RATES[Math.min(Math.max(index + (e.key === ']' ? 1 : -1), 0), PLAYBACK_RATES.length - 1)];
+        setPlaybackRate(next);
+        setAnnouncement(`Speed ${next}x`);
+        break;
+      }
+      case ',':
+        skipSentence(-1);
+        break;
+      case '.':
+        skipSentence(1);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // The listener is attached once and always calls the latest handler
+  const shortcutRef = useRef(handleShortcut);
+  shortcutRef.current = handleShortcut;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   const formatTime = (time: number) => {
     const m = Math.floor(time / 60);
     const s = Math.floor(time % 60);
@@ -161,10 +834,52 @@ function App() {
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans pb-12">
+      <HistorySidebar
+        isOpen={isHistoryOpen}
+        projects={projects}
+        currentProjectId={currentProjectId}
+        onClose={() => setIsHistoryOpen(false)}
+        onNew={handleNewProject}
+        onOpen={handleOpenProject}
+        onRename={handleRenameProject}
+        onDuplicate={handleDuplicateProject}
+        onDelete={handleDeleteProject}
+        onExport={handleExportProject}
+        onImport={handleImportProject}
+      />
+
+      <BatchPanel
+        isOpen={isBatchOpen}
+        items={batch.items}
+        isRunning={batch.isRunning}
+        defaultsLabel={`${sourceSelection === AUTO_DETECT ? 'detected language' : sourceSelection} → ${targetLangs.join(', ')}, ${selectedVoice.name}`}
+        onClose={() => setIsBatchOpen(false)}
+        onAddFiles={handleAddBatchFiles}
+        onRemove={batch.remove}
+        onClear={batch.clear}
+        onRun={handleRunBatch}
+        onCancel={batch.cancel}
+        onDownload={downloadBatchZip}
+      />
+
       {/* Header */}
       <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
         <div className="max-w-5xl mx-auto px-4 h-16 flex items-center justify-between">
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="p-2 text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-all"
+              title="Project History"
+            >
+              <History size={20} />
+            </button>
+            <button
+              onClick={() => setIsBatchOpen(true)}
+              className="p-2 text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-all"
+              title="Batch Generation"
+            >
+              <Layers size={20} />
+            </button>
             <div className="bg-brand-500 p-2 rounded-lg text-white">
               <Languages size={24} />
             </div>
@@ -172,41 +887,410 @@ function App() {
               LinguaVoice AI
             </h1>
           </div>
-          <div className="text-sm text-gray-500">
-            Powered by Gemini 2.5
-          </div>
+          <select
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value)}
+            className="text-sm text-gray-500 bg-transparent border-none focus:outline-none focus:ring-1 focus:ring-brand-500 rounded-md cursor-pointer"
+            title="Translation & Speech Provider"
+          >
+            {PROVIDERS.map(provider => (
+              <option key={provider.id} value={provider.id}>
+                Powered by {provider.name}
+              </option>
+            ))}
+          </select>
         </div>
       </header>
 
+      {appError && (
+        <div className="max-w-5xl mx-auto px-4 mt-6">
+          <ErrorBanner
+            appError={appError}
+            onDismiss={() => setAppError(null)}
+            onUseOfflineProvider={() => setProviderId('mock')}
+          />
+        </div>
+      )}
+
       <main className="max-w-5xl mx-auto px-4 mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Left Column: Input & Controls */}
         <div className="space-y-6">
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <div className="flex items-center justify-between mb-4">
               <label className="text-sm font-semibold text-gray-700">Source Text</label>
-              <div className="flex bg-gray-100 rounded-lg p-1 text-xs font-medium">
-                <button
-                  onClick={() => setSelectedLang(Language.ENGLISH)}
-                  className={`px-3 py-1 rounded-md transition-colors ${selectedLang === Language.ENGLISH ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500'}`}
+              <div className="flex items-center gap-2 text-xs font-medium">
+                <select
+                  value={sourceSelection}
+                  onChange={(e) => setSourceSelection(e.target.value as SourceLanguage)}
+                  className="bg-gray-100 border-none rounded-md px-2 py-1 text-gray-600 focus:outline-none focus:ring-1 focus:ring-brand-500 cursor-pointer"
+                  title="Source Language"
                 >
-                  English
-                </button>
-                <button
-                  onClick={() => setSelectedLang(Language.VIETNAMESE)}
-                  className={`px-3 py-1 rounded-md transition-colors ${selectedLang === Language.VIETNAMESE ? 'bg-white text-brand-600 shadow-sm' : 'text-gray-500'}`}
-                >
-                  Vietnamese
-                </button>
+                  <option value={AUTO_DETECT}>
+                    {detectedLang ? `Auto (${detectedLang})` : 'Auto-detect'}
+                  </option>
+                  {LANGUAGES.map(lang => (
+                    <option key={lang.id} value={lang.id}>{lang.id}</option>
+                  ))}
+                </select>
               </div>
             </div>
+
+            <div className="flex flex-wrap items-center gap-1.5 mb-4 text-xs font-medium">
+              <span className="flex items-center gap-1 text-gray-500 mr-1">
+                <ArrowRight size={14} className="text-gray-400" />
+                Translate into
+              </span>
+              {LANGUAGES.filter(lang => lang.id !== sourceLang).map(lang => {
+                const isSelected = activeTargets.includes(lang.id);
+                return (
+                  <button
+                    key={lang.id}
+                    onClick={() => toggleTarget(lang.id)}
+                    className={`px-2.5 py-1 rounded-full border transition-colors ${
+                      isSelected
+                        ? 'bg-brand-50 border-brand-500 text-brand-600'
+                        : 'bg-white border-gray-200 text-gray-500 hover:border-gray-300'
+                    }`}
+                    title={lang.nativeName}
+                    aria-pressed={isSelected}
+                  >
+                    {lang.id}
+                  </button>
+                );
+              })}
+            </div>
             
             <textarea
-              className="w-full h-48 p-4 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent outline-none resize-none transition-all text-gray-700 leading-relaxed"
-              placeholder={`Enter ${selectedLang} text here to convert to speech...`}
+              className="w-full h-48 p-4 bg-gray-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent outline-none resize-none transition-all text-gray-700 leading-relaxed read-only:text-gray-500"
+              placeholder={sourceSelection === AUTO_DETECT ? 'Enter text here to convert to speech...' : `Enter ${sourceLang} text here to convert to speech...`}
               value={inputText}
               onChange={(e) => setInputText(e.target.value)}
+              readOnly={importedCues !== null}
             />
 
+            <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+              {importedCues ? (
+                <span className="flex items-center gap-2">
+                  <FileText size={14} />
+                  {importedFileName} ({importedCues.length} cues, timings kept)
+                  <button
+                    onClick={clearImportedSubtitles}
+                    className="p-0.5 hover:text-brand-600 hover:bg-brand-50 rounded"
+                    title="Clear imported subtitles"
+                  >
+                    <X size={14} />
+                  </button>
+                </span>
+              ) : (
+                <span>Or import an existing subtitle track to re-voice it.</span>
+              )}
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setIsGlossaryOpen(prev => !prev)}
+                  className={`flex items-center gap-1 transition-colors ${isGlossaryOpen ? 'text-brand-600' : 'hover:text-brand-600'}`}
+                  aria-expanded={isGlossaryOpen}
+                >
+                  <BookA size={14} />
+                  <span>Glossary{glossary.length > 0 ? ` (${glossary.length})` : ''}</span>
+                </button>
+                <button
+                  onClick={() => setIsLexiconOpen(prev => !prev)}
+                  className={`flex items-center gap-1 transition-colors ${isLexiconOpen ? 'text-brand-600' : 'hover:text-brand-600'}`}
+                  aria-expanded={isLexiconOpen}
+                >
+                  <SpellCheck size={14} />
+                  <span>Pronunciation{lexicon.length > 0 ? ` (${lexicon.length})` : ''}</span>
+                </button>
+                <button
+                  onClick={() => subtitleInputRef.current?.click()}
+                  className="flex items-center gap-1 hover:text-brand-600 transition-colors"
+                >
+                  <Upload size={14} />
+                  <span>Import SRT/VTT</span>
+                </button>
+              </div>
+              <input
+                ref={subtitleInputRef}
+                type="file"
+                accept=".srt,.vtt,text/vtt,application/x-subrip"
+                onChange={handleImportSubtitles}
+                className="hidden"
+              />
+            </div>
+
+            {isGlossaryOpen && (
+              <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                <p className="text-xs text-gray-500 mb-2">
+                  Terms are translated exactly as listed here. Tick Keep for names that must stay untranslated.
+                </p>
+                <GlossaryEditor glossary={glossary} languages={activeTargets} onChange={setGlossary} />
+              </div>
+            )}
+
+            {isLexiconOpen && (
+              <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                <p className="text-xs text-gray-500 mb-2">
+                  In the text: <code>[pause 1s]</code> adds a pause, <code>*word*</code> stresses a word and <code>{'{word|respelling}'}</code> changes how one word is read.
+                  Words listed below are respelled everywhere in this project, one <code>word = respelling</code> per line.
+                </p>
+                <textarea
+                  value={lexiconText}
+                  onChange={(e) => setLexiconText(e.target.value)}
+                  rows={3}
+                  placeholder={'Nguyen = Win\nGIF = jif'}
+                  className="w-full p-2 bg-white border border-gray-200 rounded-md text-sm text-gray-700 font-mono focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent resize-y"
+                  title="Pronunciation Lexicon"
+                />
+              </div>
+            )}
+
+            <div className={`mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 ${importedCues ? 'hidden' : ''}`}>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Synthesis</label>
+                <select
+                  value={synthesisMode}
+                  onChange={(e) => setSynthesisMode(e.target.value as SynthesisMode)}
+                  disabled={dialogueMode}
+                  className="w-full bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50"
+                  title={dialogueMode ? "Dialogues are always synthesized per segment" : "Synthesis Mode"}
+                >
+                  <option value="single">Single pass (estimated timing)</option>
+                  <option value="per-segment">Per segment (exact timing)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Gap Between Segments</label>
+                <select
+                  value={segmentGap}
+                  onChange={(e) => setSegmentGap(Number(e.target.value))}
+                  disabled={synthesisMode !== 'per-segment' && !dialogueMode}
+                  className="w-full bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50"
+                  title="Gap Between Segments"
+                >
+                  <option value={0}>None</option>
+                  <option value={0.15}>0.15s</option>
+                  <option value={0.3}>0.3s</option>
+                  <option value={0.5}>0.5s</option>
+                  <option value={1}>1s</option>
+                </select>
+              </div>
+            </div>
+
+            <div className={`mt-4 ${importedCues ? 'hidden' : ''}`}>
+              <label className="flex items-center gap-2 text-sm text-gray-700 select-none">
+                <input
+                  type="checkbox"
+                  checked={dialogueMode}
+                  onChange={(e) => setDialogueMode(e.target.checked)}
+                  className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                />
+                <Users size={16} className="text-gray-400" />
+                Dialogue mode
+                <span className="text-xs text-gray-400">one turn per line, e.g. "A: Hello!"</span>
+              </label>
+              {dialogueMode && (
+                speakers.length === 0 ? (
+                  <p className="mt-2 text-xs text-amber-600">No speaker tags found. Start each line with a name and a colon.</p>
+                ) : (
+                  <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {speakers.map(speaker => (
+                      <div key={speaker} className="flex items-center gap-2">
+                        <span className="w-24 shrink-0 truncate text-sm font-medium text-gray-600" title={speaker}>{speaker}</span>
+                        <select
+                          value={resolvedSpeakerVoices[speaker]}
+                          onChange={(e) => setSpeakerVoices(prev => ({ ...prev, [speaker]: e.target.value }))}
+                          className="flex-1 min-w-0 bg-gray-50 border border-gray-200 text-gray-700 text-sm py-1.5 px-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                          title={`Voice for ${speaker}`}
+                        >
+                          {availableVoices.map(voice => (
+                            <option key={voice.id} value={voice.id}>
+                              {voice.name} ({voice.gender})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                )
+              )}
+            </div>
+
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Speak Translation ({spokenLanguage})</label>
+                <select
+                  value={translationAudio}
+                  onChange={(e) => setTranslationAudio(e.target.value as TranslationAudioMode)}
+                  className="w-full bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                  title="Speak Translation"
+                >
+                  <option value="off">Off</option>
+                  <option value="interleaved">After each sentence</option>
+                  <option value="translated">Separate translated track</option>
+                  <option value="both">Both</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Translation Voice</label>
+                <select
+                  value={translationVoice.id}
+                  onChange={(e) => setTranslationVoiceId(e.target.value)}
+                  disabled={translationAudio === 'off'}
+                  className="w-full bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50"
+                  title="Translation Voice"
+                >
+                  {translationVoices.map(voice => (
+                    <option key={voice.id} value={voice.id}>
+                      {voice.name} ({voice.gender})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Pause Around Translation</label>
+                <select
+                  value={translationPause}
+                  onChange={(e) => setTranslationPause(Number(e.target.value))}
+                  disabled={translationAudio === 'off'}
+                  className="w-full bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50"
+                  title="Pause Around Translation"
+                >
+                  <option value={0.3}>0.3s</option>
+                  <option value={0.8}>0.8s</option>
+                  <option value={1.5}>1.5s</option>
+                  <option value={3}>3s</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Loudness</label>
+                <select
+                  value={postProcess.enabled ? postProcess.targetLufs : 'off'}
+                  onChange={(e) => setPostProcess(prev => e.target.value === 'off'
+                    ? { ...prev, enabled: false }
+                    : { ...prev, enabled: true, targetLufs: Number(e.target.value) })}
+                  className="w-full bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                  title="Normalize loudness, trim edge silence and fade in/out"
+                >
+                  <option value="off">Unprocessed</option>
+                  <option value={-14}>-14 LUFS (streaming)</option>
+                  <option value={-16}>-16 LUFS (podcast)</option>
+                  <option value={-19}>-19 LUFS (quiet)</option>
+                  <option value={-23}>-23 LUFS (broadcast)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Longest Pause</label>
+                <select
+                  value={postProcess.maxSilence}
+                  onChange={(e) => setPostProcess(prev => ({ ...prev, maxSilence: Number(e.target.value) }))}
+                  disabled={!postProcess.enabled}
+                  className="w-full bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50"
+                  title="Longest Pause"
+                >
+                  <option value={0}>Keep pauses</option>
+                  <option value={0.5}>0.5s</option>
+                  <option value={1}>1s</option>
+                  <option value={2}>2s</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Background Music</label>
+                <div className="flex items-center gap-2">
+                  {music ? (
+                    <>
+                      <span className="flex-1 min-w-0 truncate text-sm text-gray-700" title={music.name}>{music.name}</span>
+                      <select
+                        value={postProcess.musicLevel}
+                        onChange={(e) => setPostProcess(prev => ({ ...prev, musicLevel: Number(e.target.value) }))}
+                        disabled={!postProcess.enabled}
+                        className="bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50"
+                        title="Music level below the speech"
+                      >
+                        <option value={-12}>-12 LU</option>
+                        <option value={-18}>-18 LU</option>
+                        <option value={-24}>-24 LU</option>
+                      </select>
+                      <button
+                        onClick={() => setMusic(null)}
+                        className="p-1 rounded text-gray-400 hover:text-red-500 transition-colors"
+                        title="Remove music"
+                      >
+                        <X size={14} />
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => musicInputRef.current?.click()}
+                      disabled={!postProcess.enabled}
+                      className="w-full flex items-center justify-center gap-2 bg-gray-50 border border-gray-200 text-gray-700 text-sm py-2 px-3 rounded-lg hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title={postProcess.enabled ? "Mix a local music file under the speech, ducked while it plays" : "Choose a loudness target to enable music"}
+                    >
+                      <Music size={16} className="text-gray-400" />
+                      <span>Choose file</span>
+                    </button>
+                  )}
+                  <input
+                    ref={musicInputRef}
+                    type="file"
+                    accept="audio/*"
+                    onChange={handleImportMusic}
+                    className="hidden"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-1">
+                <label className="flex items-center gap-2 text-xs font-medium text-gray-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={segmentation.enabled}
+                    onChange={(e) => setSegmentation(prev => ({ ...prev, enabled: e.target.checked }))}
+                    className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                  />
+                  <span>Subtitle Rules</span>
+                </label>
+                <button
+                  onClick={() => commitEdit({ segments: applySegmentationRules(segments, segmentation), pcm: pcmRef.current })}
+                  disabled={!segmentation.enabled || segments.length === 0}
+                  className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-brand-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Split, stretch and merge the current segments to follow the rules"
+                >
+                  <Ruler size={14} />
+                  <span>Re-segment now</span>
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                {([
+                  ['maxCharsPerLine', 'Chars / line', 10, 1],
+                  ['maxLines', 'Lines', 1, 1],
+                  ['maxCps', 'Chars / second', 5, 1],
+                  ['minDuration', 'Min seconds', 0.2, 0.1],
+                  ['maxDuration', 'Max seconds', 1, 0.5]
+                ] as const).map(([key, label, min, step]) => (
+                  <label key={key} className="block">
+                    <span className="block text-xs text-gray-400 mb-0.5">{label}</span>
+                    <input
+                      type="number"
+                      min={min}
+                      step={step}
+                      value={segmentation[key]}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (value >= min) setSegmentation(prev => ({ ...prev, [key]: value }));
+                      }}
+                      disabled={!segmentation.enabled}
+                      className="w-full bg-gray-50 border border-gray-200 text-gray-700 text-sm py-1.5 px-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
             <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-xs font-medium text-gray-500 mb-1">AI Voice Model</label>
@@ -214,12 +1298,12 @@ function App() {
                   <select
                     value={selectedVoice.id}
                     onChange={(e) => {
-                      const voice = VOICES.find(v => v.id === e.target.value);
+                      const voice = availableVoices.find(v => v.id === e.target.value);
                       if (voice) setSelectedVoice(voice);
                     }}
                     className="w-full appearance-none bg-gray-50 border border-gray-200 text-gray-700 py-2.5 px-3 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
                   >
-                    {VOICES.map(voice => (
+                    {availableVoices.map(voice => (
                       <option key={voice.id} value={voice.id}>
                         {voice.name} ({voice.gender})
                       </option>
@@ -229,28 +1313,63 @@ function App() {
                 </div>
               </div>
 
-              <div className="flex items-end">
-                <button
-                  onClick={handleGenerate}
-                  disabled={isGenerating || !inputText}
-                  className={`w-full flex items-center justify-center gap-2 py-2.5 px-4 rounded-lg font-medium text-white shadow-lg shadow-brand-500/30 transition-all ${
-                    isGenerating || !inputText 
-                      ? 'bg-gray-300 cursor-not-allowed shadow-none' 
-                      : 'bg-gradient-to-r from-brand-500 to-indigo-600 hover:from-brand-600 hover:to-indigo-700 transform active:scale-95'
-                  }`}
-                >
+              <div className="flex flex-col justify-end gap-2">
+                <label className="flex items-center justify-end gap-2 text-xs text-gray-500 select-none" title="Call the provider even when a cached response exists">
+                  <input
+                    type="checkbox"
+                    checked={bypassCache}
+                    onChange={(e) => setBypassCache(e.target.checked)}
+                    className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                  />
+                  Bypass cache
+                </label>
+
+                <div className="flex items-end gap-2">
                   {isGenerating ? (
                     <>
-                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      <span>Processing...</span>
+                      <div className="flex-1 flex items-center justify-center gap-2 py-2.5 px-3 rounded-lg font-medium text-white bg-gray-300 text-sm min-w-0">
+                        <div className="w-4 h-4 shrink-0 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        <span className="truncate">
+                          {jobProgress && jobProgress.total > 1
+                            ? `Translating ${jobProgress.translated}/${jobProgress.total} · Synthesizing ${jobProgress.synthesized}/${jobProgress.total}`
+                            : 'Processing...'}
+                        </span>
+                      </div>
+                      <button
+                        onClick={cancelGeneration}
+                        className="py-2.5 px-3 rounded-lg font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 transition-colors"
+                        title="Cancel"
+                      >
+                        <X size={18} />
+                      </button>
                     </>
                   ) : (
                     <>
-                      <Wand2 size={18} />
-                      <span>Generate Audio</span>
+                      <button
+                        onClick={() => handleGenerate()}
+                        disabled={!canGenerate}
+                        className={`w-full flex items-center justify-center gap-2 py-2.5 px-4 rounded-lg font-medium text-white shadow-lg shadow-brand-500/30 transition-all ${
+                          !canGenerate 
+                            ? 'bg-gray-300 cursor-not-allowed shadow-none' 
+                            : 'bg-gradient-to-r from-brand-500 to-indigo-600 hover:from-brand-600 hover:to-indigo-700 transform active:scale-95'
+                        }`}
+                      >
+                        <Wand2 size={18} />
+                        <span>Generate Audio</span>
+                      </button>
+                      {pendingJob && (
+                        <button
+                          onClick={() => handleGenerate(pendingJob)}
+                          className="shrink-0 flex items-center gap-1 py-2.5 px-3 rounded-lg text-sm font-medium text-brand-600 bg-brand-50 hover:bg-brand-100 transition-colors"
+                          title="Resume from the last finished chunk"
+                        >
+                          <RotateCw size={16} />
+                          <span>Resume {completedChunks(pendingJob)}/{pendingJob.chunks.length}</span>
+                        </button>
+                      )}
                     </>
                   )}
-                </button>
+                </div>
               </div>
             </div>
           </div>
@@ -266,7 +1385,13 @@ function App() {
                   onSeek={handleSeek}
                   onSeekStart={() => { if(isPlaying) audioRef.current?.pause(); }}
                   onSeekEnd={() => { if(isPlaying) audioRef.current?.play(); }}
+                  loopRange={loopRange}
+                  onLoopRangeChange={setLoopRange}
+                  segments={segments}
+                  step={seekStep}
+                  peaks={waveform}
                 />
+                <span className="sr-only" aria-live="polite">{announcement}</span>
              </div>
 
              {/* Controls Row */}
@@ -282,6 +1407,15 @@ function App() {
                    {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-0.5" />}
                  </button>
                  
+                 <button
+                  onClick={() => skipSentence(-1)}
+                  disabled={segments.length === 0}
+                  className="p-2 text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-all disabled:opacity-40"
+                  title="Previous sentence"
+                >
+                   <SkipBack size={20} />
+                 </button>
+
                  <button 
                   onClick={() => skip(-seekStep)} 
                   className="p-2 text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-all" 
@@ -297,6 +1431,15 @@ function App() {
                 >
                    <RotateCw size={20} />
                  </button>
+
+                 <button
+                  onClick={() => skipSentence(1)}
+                  disabled={segments.length === 0}
+                  className="p-2 text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-all disabled:opacity-40"
+                  title="Next sentence"
+                >
+                   <SkipForward size={20} />
+                 </button>
                </div>
 
                {/* Center Group: Time Display */}
@@ -326,12 +1469,9 @@ function App() {
                     className="bg-gray-50 border border-gray-200 text-xs rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-brand-500 text-gray-600 cursor-pointer hover:bg-white"
                     title="Playback Speed"
                   >
-                    <option value={0.5}>0.5x</option>
-                    <option value={0.75}>0.75x</option>
-                    <option value={1.0}>1.0x</option>
-                    <option value={1.25}>1.25x</option>
-                    <option value={1.5}>1.5x</option>
-                    <option value={2.0}>2.0x</option>
+                    {PLAYBACK_RATES.map(rate => (
+                      <option key={rate} value={rate}>{rate.toFixed(rate % 0.5 === 0 ? 1 : 2)}x</option>
+                    ))}
                   </select>
 
                   {/* Volume Control */}
@@ -350,7 +1490,96 @@ function App() {
                </div>
              </div>
              
-             <div className="mt-4 pt-4 border-t border-gray-100 flex justify-center">
+             {/* Drill Row */}
+             <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm text-gray-600">
+               <label className="flex items-center gap-2 select-none">
+                 <input
+                   type="checkbox"
+                   checked={drill.enabled}
+                   onChange={(e) => setDrill(prev => ({ ...prev, enabled: e.target.checked }))}
+                   className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                 />
+                 <Repeat size={16} className="text-gray-400" />
+                 Drill
+               </label>
+               <select
+                 value={drill.repeats}
+                 onChange={(e) => setDrill(prev => ({ ...prev, repeats: Number(e.target.value) }))}
+                 disabled={!drill.enabled}
+                 className="bg-gray-50 border border-gray-200 text-xs rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-brand-500 text-gray-600 cursor-pointer hover:bg-white disabled:opacity-50"
+                 title="Plays per Sentence"
+               >
+                 {[1, 2, 3, 5, 10].map(n => (
+                   <option key={n} value={n}>{n}x</option>
+                 ))}
+               </select>
+               <select
+                 value={drill.pauseFactor}
+                 onChange={(e) => setDrill(prev => ({ ...prev, pauseFactor: Number(e.target.value) }))}
+                 disabled={!drill.enabled}
+                 className="bg-gray-50 border border-gray-200 text-xs rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-brand-500 text-gray-600 cursor-pointer hover:bg-white disabled:opacity-50"
+                 title="Shadowing Pause (relative to sentence length)"
+               >
+                 <option value={0}>No pause</option>
+                 <option value={0.5}>Pause 0.5x</option>
+                 <option value={1}>Pause 1x</option>
+                 <option value={1.5}>Pause 1.5x</option>
+                 <option value={2}>Pause 2x</option>
+               </select>
+               {drill.enabled && (
+                 <span className="text-xs text-gray-400 w-28">
+                   {drillState.isShadowing ? 'Your turn…' : `Play ${Math.min(drillState.repetition + 1, drill.repeats)}/${drill.repeats}`}
+                 </span>
+               )}
+
+               <div className="flex items-center gap-1" title="A-B repeat (or shift-drag on the seek bar)">
+                 <button
+                   onClick={() => setLoopPoint('start')}
+                   className="px-2 py-1 rounded-md text-xs font-semibold bg-gray-100 hover:bg-amber-100 hover:text-amber-700 transition-colors"
+                 >
+                   A
+                 </button>
+                 <button
+                   onClick={() => setLoopPoint('end')}
+                   className="px-2 py-1 rounded-md text-xs font-semibold bg-gray-100 hover:bg-amber-100 hover:text-amber-700 transition-colors"
+                 >
+                   B
+                 </button>
+                 {loopRange && (
+                   <button
+                     onClick={() => setLoopRange(null)}
+                     className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-amber-700 bg-amber-50 hover:bg-amber-100 transition-colors"
+                     title="Clear A-B repeat"
+                   >
+                     {formatTime(loopRange.start)}–{formatTime(loopRange.end)}
+                     <X size={12} />
+                   </button>
+                 )}
+               </div>
+
+               <div className="flex items-center gap-1 text-xs">
+                 <button
+                   onClick={() => setConcealOriginal(prev => !prev)}
+                   className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${concealOriginal ? 'bg-brand-50 text-brand-600' : 'bg-gray-100 hover:bg-gray-200'}`}
+                   aria-pressed={concealOriginal}
+                   title="Hide the original line until clicked"
+                 >
+                   <EyeOff size={12} />
+                   Original
+                 </button>
+                 <button
+                   onClick={() => setConcealTranslations(prev => !prev)}
+                   className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${concealTranslations ? 'bg-brand-50 text-brand-600' : 'bg-gray-100 hover:bg-gray-200'}`}
+                   aria-pressed={concealTranslations}
+                   title="Hide translations until clicked"
+                 >
+                   <EyeOff size={12} />
+                   Translation
+                 </button>
+               </div>
+             </div>
+
+             <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap items-center justify-center gap-x-4 gap-y-2">
                <a 
                  href={audioUrl || '#'} 
                  download="linguavoice-audio.wav"
@@ -359,21 +1588,126 @@ function App() {
                  <Download size={16} />
                  <span>Download Audio (WAV)</span>
                </a>
+
+               <div className="flex items-center gap-2 text-sm text-gray-500">
+                 <FileAudio size={16} />
+                 <select
+                   value={exportFormat}
+                   onChange={(e) => setExportFormat(e.target.value as AudioExportFormat)}
+                   className="bg-gray-50 border border-gray-200 text-xs rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-brand-500 text-gray-600 cursor-pointer hover:bg-white"
+                   title="Export Format"
+                 >
+                   {(Object.keys(AUDIO_EXPORT_FORMATS) as AudioExportFormat[]).map(format => (
+                     <option key={format} value={format}>{AUDIO_EXPORT_FORMATS[format].label}</option>
+                   ))}
+                 </select>
+                 <select
+                   value={exportFormat === 'opus' ? OPUS_SAMPLE_RATE : exportSampleRate}
+                   onChange={(e) => setExportSampleRate(Number(e.target.value))}
+                   disabled={exportFormat === 'opus'}
+                   className="bg-gray-50 border border-gray-200 text-xs rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-brand-500 text-gray-600 cursor-pointer hover:bg-white disabled:cursor-not-allowed disabled:opacity-60"
+                   title={exportFormat === 'opus' ? 'Opus always plays back at 48 kHz' : 'Sample Rate'}
+                 >
+                   {EXPORT_SAMPLE_RATES.map(rate => (
+                     <option key={rate} value={rate}>{(rate / 1000).toFixed(rate % 1000 ? 1 : 0)} kHz</option>
+                   ))}
+                 </select>
+                 <label className="flex items-center gap-1 text-xs select-none" title="Duplicate the voice to both channels">
+                   <input
+                     type="checkbox"
+                     checked={exportStereo}
+                     onChange={(e) => setExportStereo(e.target.checked)}
+                     className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                   />
+                   Stereo
+                 </label>
+                 <button
+                   onClick={downloadCompressedAudio}
+                   disabled={!audioUrl || isExporting}
+                   className="hover:text-brand-600 transition-colors disabled:cursor-not-allowed"
+                 >
+                   {isExporting ? 'Encoding...' : 'Export'}
+                 </button>
+               </div>
+
+               {translatedAudioUrl && (
+                 <a
+                   href={translatedAudioUrl}
+                   download="linguavoice-translation.wav"
+                   className="flex items-center gap-2 text-sm text-gray-500 hover:text-brand-600 transition-colors"
+                 >
+                   <Download size={16} />
+                   <span>Translation Only (WAV)</span>
+                 </a>
+               )}
+
+               <div className="flex items-center gap-2 text-sm text-gray-500">
+                 <FileText size={16} />
+                 {(['srt', 'vtt', 'ass'] as SubtitleFormat[]).map(format => (
+                   <button
+                     key={format}
+                     onClick={() => downloadSubtitles(format)}
+                     disabled={segments.length === 0}
+                     className="hover:text-brand-600 transition-colors uppercase disabled:cursor-not-allowed"
+                     title={`Download Subtitles (${format.toUpperCase()})`}
+                   >
+                     {format}
+                   </button>
+                 ))}
+                 <select
+                   value={subtitleTrack}
+                   onChange={(e) => setSubtitleTrack(e.target.value as SubtitleTrack)}
+                   className="bg-gray-50 border border-gray-200 text-xs rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-brand-500 text-gray-600 cursor-pointer hover:bg-white"
+                   title="Subtitle Lines"
+                 >
+                   <option value="both">Original + translations</option>
+                   <option value="original">Original only</option>
+                   <option value="translated">Translations only</option>
+                 </select>
+               </div>
              </div>
           </div>
         </div>
 
         {/* Right Column: Subtitles */}
         <div className="h-full">
-          <SubtitleDisplay segments={segments} currentTime={currentTime} />
+          {isEditing ? (
+            <SubtitleEditor
+              segments={segments}
+              busyIndex={resynthIndex}
+              canUndo={editHistory.canUndo}
+              canRedo={editHistory.canRedo}
+              onChange={handleSegmentChange}
+              onSplit={(index, offset) => commitEdit({ segments: splitSegment(segments, index, offset), pcm: pcmRef.current })}
+              onMerge={(index) => commitEdit({ segments: mergeWithNext(segments, index), pcm: pcmRef.current })}
+              onMove={(index, direction) => commitEdit(moveSegment(currentTrack(), index, direction))}
+              onDelete={(index) => commitEdit(deleteSegment(currentTrack(), index))}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onDone={() => setIsEditing(false)}
+            />
+          ) : (
+            <SubtitleDisplay
+              segments={segments}
+              currentTime={currentTime}
+              onEdit={segments.length > 0 ? () => setIsEditing(true) : undefined}
+              onSeek={handleSeek}
+              concealOriginal={concealOriginal}
+              concealTranslations={concealTranslations}
+              glossaryIssues={glossaryIssues}
+              ruleViolations={ruleViolations}
+            />
+          )}
           
           <div className="mt-6 p-4 bg-blue-50 border border-blue-100 rounded-lg">
             <h4 className="text-sm font-semibold text-blue-800 mb-2">How it works</h4>
             <ul className="text-xs text-blue-700 space-y-2 list-disc pl-4">
-              <li>Enter your text (English or Vietnamese).</li>
+              <li>Enter your text and pick the language to translate into.</li>
               <li>Gemini AI translates and segments the text.</li>
               <li>High-fidelity audio is synthesized using Gemini TTS.</li>
               <li>Subtitles are automatically aligned to the audio.</li>
+              <li>Markup: [pause 1s], *emphasis* and {'{word|respelling}'} shape the speech but not the subtitles.</li>
+              <li>Keys: Space play/pause, ←/→ skip, [ ] speed, , . previous/next sentence.</li>
             </ul>
           </div>
         </div>
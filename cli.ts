@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  generate,
+  geminiProvider,
+  mockProvider,
+  findLanguage,
+  findVoice,
+  describeError,
+  AUTO_DETECT,
+  Language,
+  SourceLanguage,
+  SubtitleFormat,
+  SubtitleTrack,
+  SynthesisMode,
+} from "./lib";
+
+/**
+ * Command line front end: `linguavoice generate --in script.txt --out dir/` writes
+ * <name>.wav and <name>.srt (or .vtt/.ass) for the script.
+ */
+
+const USAGE = `Usage: linguavoice generate --in <file> --out <dir> [options]
+
+Options:
+  --in <file>           Text to voice; speech markup ([pause 1s], *emphasis*, {word|respelling}) is honoured
+  --out <dir>           Output directory, created if missing
+  --lang <language>     Language of the text, by code or name (default: detected)
+  --to <languages>      Comma-separated subtitle translation targets (default: English, or Vietnamese for English text)
+  --voice <voice>       Voice name, e.g. Kore (default: first voice suited to the language)
+  --format <format>     Subtitle format: srt, vtt or ass (default: srt)
+  --track <track>       Subtitle lines: original, translated or both (default: both)
+  --mode <mode>         Synthesis: single or per-segment (default: single)
+  --name <name>         Base name of the output files (default: the input file name)
+  --provider <id>       gemini or mock (default: gemini; reads GEMINI_API_KEY or API_KEY)
+  -h, --help            Show this help
+`;
+
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+const SUBTITLE_TRACKS: SubtitleTrack[] = ['original', 'translated', 'both'];
+const SYNTHESIS_MODES: SynthesisMode[] = ['single', 'per-segment'];
+
+class UsageError extends Error {}
+
+const oneOf = <T extends string>(value: string | undefined, allowed: T[], option: string): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${option} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+const language = (value: string): Language => {
+  const found = findLanguage(value);
+  if (!found) throw new UsageError(`Unknown language "${value}".`);
+  return found;
+};
+
+const voice = (value: string): string => {
+  if (!findVoice(value)) throw new UsageError(`Unknown voice "${value}".`);
+  return value;
+};
+
+const run = async (argv: string[]): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      in: { type: 'string' },
+      out: { type: 'string' },
+      lang: { type: 'string' },
+      to: { type: 'string' },
+      voice: { type: 'string' },
+      format: { type: 'string' },
+      track: { type: 'string' },
+      mode: { type: 'string' },
+      name: { type: 'string' },
+      provider: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (positionals[0] !== 'generate' || positionals.length > 1) {
+    throw new UsageError(positionals.length ? `Unknown command "${positionals.join(' ')}".` : 'Missing command.');
+  }
+  if (!values.in || !values.out) {
+    throw new UsageError('Both --in and --out are required.');
+  }
+
+  const format = oneOf(values.format, SUBTITLE_FORMATS, 'format') ?? 'srt';
+  const sourceLang: SourceLanguage = values.lang ? language(values.lang) : AUTO_DETECT;
+  const targetLangs = values.to ? values.to.split(',').filter(v => v.trim()).map(language) : [];
+  const voiceName = values.voice ? voice(values.voice) : undefined;
+  const provider = oneOf(values.provider, ['gemini', 'mock'], 'provider') === 'mock' ? mockProvider : geminiProvider;
+
+  const text = await readFile(values.in, 'utf8');
+  const output = await generate(text, {
+    provider,
+    sourceLang,
+    targetLangs,
+    voice: voiceName,
+    subtitleFormat: format,
+    subtitleTrack: oneOf(values.track, SUBTITLE_TRACKS, 'track'),
+    synthesisMode: oneOf(values.mode, SYNTHESIS_MODES, 'mode'),
+    onProgress: ({ total, translated, synthesized }) =>
+      process.stderr.write(`Translated ${translated}/${total}, synthesized ${synthesized}/${total}\n`),
+  });
+
+  const name = values.name ?? path.basename(values.in, path.extname(values.in));
+  const audioPath = path.join(values.out, `${name}.wav`);
+  const subtitlePath = path.join(values.out, `${name}.${format}`);
+  await mkdir(values.out, { recursive: true });
+  await writeFile(audioPath, output.wav);
+  await writeFile(subtitlePath, output.subtitles, 'utf8');
+
+  process.stderr.write(
+    `${output.sourceLang} → ${output.targetLangs.join(', ')}, voice ${output.voiceId}, ${output.segments.length} segments\n`
+  );
+  process.stdout.write(`${audioPath}\n${subtitlePath}\n`);
+};
+
+run(process.argv.slice(2)).catch(error => {
+  if (error instanceof UsageError || (error as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS')) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  const { title, message } = describeError(error);
+  process.stderr.write(`${title}: ${message}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,225 @@
+import React, { useRef, useState } from 'react';
+import { CircleAlert, CircleCheck, Clock, Download, Play, RotateCcw, Square, Trash2, Upload, X } from 'lucide-react';
+import { BatchItem, BatchItemStatus, SubtitleFormat } from '../types';
+import { DEFAULT_CONCURRENCY } from '../services/jobService';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  items: BatchItem[];
+  isRunning: boolean;
+  // Shown so users know what items without a language or voice will use
+  defaultsLabel: string;
+  onClose: () => void;
+  onAddFiles: (files: File[]) => void;
+  onRemove: (index: number) => void;
+  onClear: () => void;
+  // Runs the given items, or everything not yet done
+  onRun: (concurrency: number, indexes?: number[]) => void;
+  onCancel: () => void;
+  onDownload: (format: SubtitleFormat) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+      return <div className="w-4 h-4 shrink-0 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" title="Running" />;
+    case 'done':
+      return <CircleCheck size={16} className="shrink-0 text-green-500" aria-label="Done" />;
+    case 'failed':
+      return <CircleAlert size={16} className="shrink-0 text-red-500" aria-label="Failed" />;
+    default:
+      return <Clock size={16} className="shrink-0 text-gray-300" aria-label="Queued" />;
+  }
+};
+
+const selectClass = 'bg-gray-50 border border-gray-200 text-gray-700 text-sm py-1.5 px-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50';
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  isOpen,
+  items,
+  isRunning,
+  defaultsLabel,
+  onClose,
+  onAddFiles,
+  onRemove,
+  onClear,
+  onRun,
+  onCancel,
+  onDownload
+}) => {
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [format, setFormat] = useState<SubtitleFormat>('srt');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const done = items.filter(item => item.status === 'done').length;
+  const failed = items.map((item, i) => (item.status === 'failed' ? i : -1)).filter(i => i !== -1);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-900/20" onClick={isRunning ? undefined : onClose} />
+
+      <div className="relative w-full max-w-3xl max-h-[85vh] bg-white rounded-xl shadow-xl border border-gray-200 flex flex-col" role="dialog" aria-label="Batch generation">
+        <div className="h-14 px-4 flex items-center justify-between border-b border-gray-200">
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Batch</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-all"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 flex flex-wrap items-center gap-2 border-b border-gray-100">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning}
+            className="flex items-center gap-2 bg-gray-50 border border-gray-200 text-gray-700 text-sm py-1.5 px-3 rounded-lg hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload size={16} className="text-gray-400" />
+            <span>Add .txt or .csv</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.csv,text/plain,text/csv"
+            multiple
+            onChange={handleFiles}
+            className="hidden"
+          />
+          {items.length > 0 && (
+            <button
+              onClick={onClear}
+              disabled={isRunning}
+              className="text-xs font-medium text-gray-500 hover:text-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear all
+            </button>
+          )}
+          <p className="ml-auto text-xs text-gray-400">
+            CSV columns: <code>id,text,language,voice</code>. Defaults: {defaultsLabel}.
+          </p>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {items.length === 0 && (
+            <li className="p-8 text-center text-sm text-gray-400">
+              Add text files (one item each) or a CSV (one item per row).
+            </li>
+          )}
+          {items.map((item, index) => (
+            <li key={index} className="px-4 py-2.5 flex items-start gap-3">
+              <div className="pt-0.5">
+                <StatusIcon status={item.status} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-700 truncate">{item.id}</span>
+                  {item.language && <span className="text-xs text-gray-400">{item.language}</span>}
+                  {item.voiceId && <span className="text-xs text-gray-400">{item.voiceId}</span>}
+                </div>
+                <p className="text-xs text-gray-500 truncate" title={item.text}>{item.text}</p>
+                {item.error && <p className="text-xs text-red-500 mt-0.5">{item.error}</p>}
+              </div>
+              {item.status === 'failed' && (
+                <button
+                  onClick={() => onRun(concurrency, [index])}
+                  disabled={isRunning}
+                  className="p-1 rounded text-gray-400 hover:text-brand-600 transition-colors disabled:opacity-50"
+                  title="Retry"
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+              <button
+                onClick={() => onRemove(index)}
+                disabled={isRunning}
+                className="p-1 rounded text-gray-400 hover:text-red-500 transition-colors disabled:opacity-50"
+                title="Remove"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="px-4 py-3 flex flex-wrap items-center gap-3 border-t border-gray-200">
+          <label className="flex items-center gap-2 text-xs font-medium text-gray-500">
+            Parallel
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={isRunning}
+              className={selectClass}
+            >
+              {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <span className="text-xs text-gray-500">
+            {done}/{items.length} done{failed.length > 0 && `, ${failed.length} failed`}
+          </span>
+
+          <div className="ml-auto flex items-center gap-2">
+            {isRunning ? (
+              <button
+                onClick={onCancel}
+                className="flex items-center gap-2 text-sm font-medium text-gray-600 py-1.5 px-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+              >
+                <Square size={14} />
+                <span>Stop</span>
+              </button>
+            ) : (
+              <>
+                {failed.length > 0 && (
+                  <button
+                    onClick={() => onRun(concurrency, failed)}
+                    className="flex items-center gap-2 text-sm font-medium text-gray-600 py-1.5 px-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+                  >
+                    <RotateCcw size={14} />
+                    <span>Retry failed</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => onRun(concurrency)}
+                  disabled={done === items.length}
+                  className="flex items-center gap-2 text-sm font-medium text-white bg-brand-600 py-1.5 px-3 rounded-lg hover:bg-brand-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Play size={14} />
+                  <span>Generate</span>
+                </button>
+              </>
+            )}
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as SubtitleFormat)}
+              className={selectClass}
+              title="Subtitle format in the zip"
+            >
+              {SUBTITLE_FORMATS.map(f => <option key={f} value={f}>.{f}</option>)}
+            </select>
+            <button
+              onClick={() => onDownload(format)}
+              disabled={done === 0}
+              className="flex items-center gap-2 text-sm font-medium text-brand-600 py-1.5 px-3 rounded-lg border border-brand-200 hover:bg-brand-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="WAV and subtitles for every finished item, plus a manifest"
+            >
+              <Download size={14} />
+              <span>Zip</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { AlertTriangle, RotateCw, X } from 'lucide-react';
+import { describeError } from '../services/errors';
+
+export interface AppError {
+  error: unknown;
+  // What the app was doing, e.g. "Generation failed."
+  context: string;
+  retry?: () => void;
+}
+
+interface ErrorBannerProps {
+  appError: AppError;
+  onDismiss: () => void;
+  // Offered for auth errors so the app stays usable without a key
+  onUseOfflineProvider?: () => void;
+}
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ appError, onDismiss, onUseOfflineProvider }) => {
+  const { title, message, action, kind } = describeError(appError.error);
+  const tone = kind === 'rate-limit' || kind === 'transient'
+    ? 'bg-amber-50 border-amber-200 text-amber-800'
+    : 'bg-red-50 border-red-200 text-red-800';
+
+  return (
+    <div role="alert" className={`flex items-start gap-3 p-4 rounded-xl border ${tone}`}>
+      <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0 text-sm">
+        <p className="font-semibold">{title}</p>
+        <p className="mt-1 opacity-90 break-words">{appError.context} {message}</p>
+        <p className="mt-1 font-medium">{action}</p>
+        {(appError.retry || (kind === 'auth' && onUseOfflineProvider)) && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {appError.retry && (
+              <button
+                onClick={() => { onDismiss(); appError.retry?.(); }}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-white/70 border border-black/10 hover:bg-white text-xs font-medium transition-colors"
+              >
+                <RotateCw size={14} />
+                <span>Try again</span>
+              </button>
+            )}
+            {kind === 'auth' && onUseOfflineProvider && (
+              <button
+                onClick={() => { onDismiss(); onUseOfflineProvider(); }}
+                className="px-3 py-1.5 rounded-md bg-white/70 border border-black/10 hover:bg-white text-xs font-medium transition-colors"
+              >
+                Use Offline Mock
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <button onClick={onDismiss} className="p-1 rounded hover:bg-white/60 transition-colors" title="Dismiss">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { GlossaryEntry, Language } from '../types';
+import { getLanguageInfo } from '../services/languageService';
+
+interface GlossaryEditorProps {
+  glossary: GlossaryEntry[];
+  // Columns shown for required renderings; entries keep values for other languages
+  languages: Language[];
+  onChange: (glossary: GlossaryEntry[]) => void;
+}
+
+const inputClass = 'w-full min-w-0 px-2 py-1 bg-white border border-gray-200 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:bg-gray-100 disabled:text-gray-400';
+
+export const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ glossary, languages, onChange }) => {
+  const update = (index: number, changes: Partial<GlossaryEntry>) =>
+    onChange(glossary.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  const columns = `minmax(0,1.2fr) repeat(${languages.length}, minmax(0,1fr)) auto auto`;
+
+  return (
+    <div className="space-y-1.5">
+      {glossary.length > 0 && (
+        <div className="grid gap-1.5 items-center text-xs font-medium text-gray-500" style={{ gridTemplateColumns: columns }}>
+          <span>Term</span>
+          {languages.map(lang => <span key={lang}>{lang}</span>)}
+          <span title="Keep the term untranslated in every language">Keep</span>
+          <span />
+        </div>
+      )}
+      {glossary.map((entry, index) => (
+        <div key={index} className="grid gap-1.5 items-center" style={{ gridTemplateColumns: columns }}>
+          <input
+            value={entry.term}
+            onChange={(e) => update(index, { term: e.target.value })}
+            className={inputClass}
+            placeholder="Source term"
+            aria-label="Source term"
+          />
+          {languages.map(lang => (
+            <input
+              key={lang}
+              lang={getLanguageInfo(lang).code}
+              value={entry.keep ? entry.term : entry.translations[lang] ?? ''}
+              onChange={(e) => update(index, { translations: { ...entry.translations, [lang]: e.target.value } })}
+              disabled={entry.keep}
+              className={inputClass}
+              placeholder={getLanguageInfo(lang).code}
+              aria-label={`${lang} rendering of ${entry.term || 'term'}`}
+            />
+          ))}
+          <input
+            type="checkbox"
+            checked={entry.keep ?? false}
+            onChange={(e) => update(index, { keep: e.target.checked })}
+            className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+            title="Do not translate"
+          />
+          <button
+            onClick={() => onChange(glossary.filter((_, i) => i !== index))}
+            className="p-1 rounded text-gray-400 hover:text-red-500 transition-colors"
+            title="Remove term"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...glossary, { term: '', translations: {} }])}
+        className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-brand-600 transition-colors"
+      >
+        <Plus size={14} />
+        <span>Add term</span>
+      </button>
+    </div>
+  );
+};
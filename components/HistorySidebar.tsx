@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import { Copy, Download, FilePlus, Pencil, Trash2, Upload, X } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onClose: () => void;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isOpen,
+  projects,
+  currentProjectId,
+  onClose,
+  onNew,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className={`fixed inset-0 bg-gray-900/20 z-[55] transition-opacity ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+        onClick={onClose}
+      />
+
+      <aside
+        className={`fixed top-0 left-0 h-full w-80 max-w-full bg-white border-r border-gray-200 shadow-xl z-[60] flex flex-col transition-transform duration-300 ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}
+        aria-hidden={!isOpen}
+      >
+        <div className="h-16 px-4 flex items-center justify-between border-b border-gray-200">
+          <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">History</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-all"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-3 flex gap-2 border-b border-gray-100 text-sm">
+          <button
+            onClick={onNew}
+            className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-brand-50 text-brand-600 hover:bg-brand-100 transition-colors"
+          >
+            <FilePlus size={16} />
+            <span>New</span>
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-gray-50 text-gray-600 hover:bg-gray-100 transition-colors"
+          >
+            <Upload size={16} />
+            <span>Import</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {projects.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-sm text-gray-400 italic text-center px-4">
+              Generated projects are saved here automatically.
+            </div>
+          ) : (
+            projects.map(project => {
+              const isCurrent = project.id === currentProjectId;
+              return (
+                <div
+                  key={project.id}
+                  className={`group rounded-lg border p-3 transition-colors ${isCurrent ? 'border-brand-500 bg-brand-50' : 'border-gray-100 hover:border-gray-200'}`}
+                >
+                  {editingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full text-sm font-medium bg-white border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-brand-500"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => onOpen(project.id)}
+                      className="w-full text-left"
+                    >
+                      <p className="text-sm font-medium text-gray-800 truncate">{project.name}</p>
+                      <p className="text-xs text-gray-400 mt-0.5">
+                        {formatDate(project.updatedAt)} · {project.segments.length} segments · {formatDuration(project.duration)}
+                      </p>
+                    </button>
+                  )}
+
+                  <div className="mt-2 flex items-center gap-1 text-gray-400">
+                    <button onClick={() => startRename(project)} className="p-1 hover:text-brand-600 rounded" title="Rename">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} className="p-1 hover:text-brand-600 rounded" title="Duplicate">
+                      <Copy size={14} />
+                    </button>
+                    <button onClick={() => onExport(project.id)} className="p-1 hover:text-brand-600 rounded" title="Export bundle">
+                      <Download size={14} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete "${project.name}"?`)) onDelete(project.id);
+                      }}
+                      className="p-1 hover:text-red-600 rounded ml-auto"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
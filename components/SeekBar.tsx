@@ -1,4 +1,7 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { LoopRange, SubtitleSegment } from '../types';
+import { PeakLevel, peaksForView } from '../services/waveformService';
 
 interface SeekBarProps {
   currentTime: number;
@@ -6,8 +9,24 @@ interface SeekBarProps {
   onSeek: (time: number) => void;
   onSeekStart?: () => void;
   onSeekEnd?: () => void;
+  // A-B repeat range, selected by shift-dragging across the bar
+  loopRange?: LoopRange | null;
+  onLoopRangeChange?: (range: LoopRange | null) => void;
+  // Drawn as boundary ticks and previewed in the hover tooltip
+  segments?: SubtitleSegment[];
+  // Seconds moved per arrow key
+  step?: number;
+  // Waveform peaks; the bar becomes a zoomable waveform when present
+  peaks?: PeakLevel[] | null;
 }
 
+// Shorter shift-drags are treated as a click and clear the range
+const MIN_LOOP_LENGTH = 0.2;
+
+const MAX_ZOOM = 64;
+// Zooming stops once the visible window is this short
+const MIN_VIEW_SPAN = 2;
+
 const formatTime = (seconds: number) => {
   if (!isFinite(seconds) || isNaN(seconds)) return "00:00";
   const m = Math.floor(seconds / 60);
@@ -15,74 +34,149 @@ const formatTime = (seconds: number) => {
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 };
 
+/**
+ * Spoken form of a time for screen readers, e.g. "1 minute 5 seconds".
+ */
+const describeTime = (seconds: number) => {
+  if (!isFinite(seconds) || isNaN(seconds)) return "0 seconds";
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  const parts = [];
+  if (m > 0) parts.push(`${m} minute${m === 1 ? '' : 's'}`);
+  parts.push(`${s} second${s === 1 ? '' : 's'}`);
+  return parts.join(' ');
+};
+
 export const SeekBar: React.FC<SeekBarProps> = ({ 
   currentTime, 
   duration, 
   onSeek,
   onSeekStart,
-  onSeekEnd
+  onSeekEnd,
+  loopRange,
+  onLoopRangeChange,
+  segments = [],
+  step = 5,
+  peaks
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  // Visible window: the whole track at zoom 1, otherwise duration / zoom seconds from viewStart
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const span = duration > 0 ? duration / zoom : 0;
+  const hasWaveform = !!peaks && duration > 0;
   const [isDragging, setIsDragging] = useState(false);
   const [hoverTime, setHoverTime] = useState<number | null>(null);
   const [hoverPos, setHoverPos] = useState<number | null>(null);
   const [dragTime, setDragTime] = useState<number>(0);
+  // Where a shift-drag range selection started
+  const [selectAnchor, setSelectAnchor] = useState<number | null>(null);
+  // Read out by screen readers after a seek
+  const [announcement, setAnnouncement] = useState("");
 
   // Calculate percentage for the progress bar
   const activeTime = isDragging ? dragTime : currentTime;
-  const progressPercent = duration > 0 ? (activeTime / duration) * 100 : 0;
+  // Range being selected, otherwise the committed one
+  const shownRange = selectAnchor !== null
+    ? { start: Math.min(selectAnchor, dragTime), end: Math.max(selectAnchor, dragTime) }
+    : loopRange;
+  const toPercent = (time: number) => (span > 0 ? ((time - viewStart) / span) * 100 : 0);
+  const hoverSegment = hoverTime !== null
+    ? segments.find(seg => hoverTime >= seg.startTime && hoverTime < seg.endTime)
+    : undefined;
+  const progressPercent = toPercent(activeTime);
 
-  const calculateTimeFromEvent = useCallback((e: MouseEvent | React.MouseEvent) => {
+  const calculateTimeFromEvent = useCallback((e: React.PointerEvent) => {
     if (!containerRef.current || duration === 0) return 0;
     const rect = containerRef.current.getBoundingClientRect();
     const offsetX = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
-    return (offsetX / rect.width) * duration;
-  }, [duration]);
+    return viewStart + (offsetX / rect.width) * span;
+  }, [duration, viewStart, span]);
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    setIsDragging(true);
+  const commitSeek = (time: number) => {
+    onSeek(time);
+    setAnnouncement(`${describeTime(time)} of ${describeTime(duration)}`);
+  };
+
+  // Pointer capture keeps the drag going outside the bar for mouse, touch and pen alike
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
     const newTime = calculateTimeFromEvent(e);
     setDragTime(newTime);
+    if (e.shiftKey && onLoopRangeChange) {
+      setSelectAnchor(newTime);
+      return;
+    }
+    setIsDragging(true);
     if (onSeekStart) onSeekStart();
-    
-    // Immediate visual update handled by dragTime state
   };
 
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (isDragging) {
-      const newTime = calculateTimeFromEvent(e);
-      setDragTime(newTime);
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (isDragging || selectAnchor !== null) {
+      setDragTime(calculateTimeFromEvent(e));
+    }
+    // Touch has no hover, so only mouse and pen show the tooltip while not dragging
+    if (e.pointerType !== 'touch' || isDragging) {
+      handleHoverMove(e);
     }
-  }, [isDragging, calculateTimeFromEvent]);
+  };
 
-  const handleMouseUp = useCallback((e: MouseEvent) => {
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const newTime = calculateTimeFromEvent(e);
+    if (selectAnchor !== null) {
+      const start = Math.min(selectAnchor, newTime);
+      const end = Math.max(selectAnchor, newTime);
+      setSelectAnchor(null);
+      onLoopRangeChange?.(end - start >= MIN_LOOP_LENGTH ? { start, end } : null);
+      return;
+    }
     if (isDragging) {
       setIsDragging(false);
-      const newTime = calculateTimeFromEvent(e);
-      onSeek(newTime); // Commit the seek
+      commitSeek(newTime); // Commit the seek
       if (onSeekEnd) onSeekEnd();
+      if (e.pointerType === 'touch') handleHoverLeave();
     }
-  }, [isDragging, calculateTimeFromEvent, onSeek, onSeekEnd]);
+  };
 
-  // Global event listeners for drag/drop outside the component
-  useEffect(() => {
+  // A cancelled gesture (e.g. the page scrolled) keeps the old position
+  const handlePointerCancel = () => {
+    setSelectAnchor(null);
     if (isDragging) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp);
+      setIsDragging(false);
+      if (onSeekEnd) onSeekEnd();
     }
-    return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+    handleHoverLeave();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (duration === 0) return;
+    const bigStep = Math.max(step, duration / 10);
+    const targets: Record<string, number> = {
+      ArrowLeft: currentTime - step,
+      ArrowDown: currentTime - step,
+      ArrowRight: currentTime + step,
+      ArrowUp: currentTime + step,
+      PageDown: currentTime - bigStep,
+      PageUp: currentTime + bigStep,
+      Home: 0,
+      End: duration,
     };
-  }, [isDragging, handleMouseMove, handleMouseUp]);
+    if (!(e.key in targets)) return;
+    // Also tells the app-wide shortcuts that this key was handled
+    e.preventDefault();
+    commitSeek(Math.min(Math.max(targets[e.key], 0), duration));
+  };
 
   // Hover effect handling
-  const handleHoverMove = (e: React.MouseEvent) => {
+  const handleHoverMove = (e: React.PointerEvent) => {
     if (!containerRef.current) return;
     const rect = containerRef.current.getBoundingClientRect();
     const offsetX = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
     setHoverPos(offsetX);
-    setHoverTime((offsetX / rect.width) * duration);
+    setHoverTime(viewStart + (offsetX / rect.width) * span);
   };
 
   const handleHoverLeave = () => {
@@ -90,45 +184,211 @@ export const SeekBar: React.FC<SeekBarProps> = ({
     setHoverPos(null);
   };
 
+  // Keeps the window inside the track
+  const clampStart = useCallback((start: number, viewSpan: number) =>
+    Math.min(Math.max(start, 0), Math.max(0, duration - viewSpan)), [duration]);
+
+  /**
+   * Changes zoom while keeping `anchor` (a time) at the same place on screen.
+   */
+  const zoomTo = useCallback((nextZoom: number, anchor: number) => {
+    if (duration === 0) return;
+    const maxZoom = Math.max(1, Math.min(MAX_ZOOM, duration / MIN_VIEW_SPAN));
+    const clamped = Math.min(Math.max(nextZoom, 1), maxZoom);
+    const ratio = span > 0 ? (anchor - viewStart) / span : 0;
+    const nextSpan = duration / clamped;
+    setZoom(clamped);
+    setViewStart(clampStart(anchor - ratio * nextSpan, nextSpan));
+  }, [duration, span, viewStart, clampStart]);
+
+  // A new track starts fully zoomed out
+  useEffect(() => {
+    setZoom(1);
+    setViewStart(0);
+  }, [peaks]);
+
+  // Follow the playhead when it leaves a zoomed-in window
+  useEffect(() => {
+    if (zoom === 1 || isDragging) return;
+    if (currentTime < viewStart || currentTime > viewStart + span) {
+      setViewStart(clampStart(currentTime - span * 0.1, span));
+    }
+  }, [currentTime, zoom, span, viewStart, isDragging, clampStart]);
+
+  // Ctrl/Cmd + wheel zooms around the pointer; the wheel scrolls a zoomed-in view.
+  // Attached natively because React wheel listeners are passive and cannot stop page scroll.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !hasWaveform) return;
+    const onWheel = (e: WheelEvent) => {
+      const rect = container.getBoundingClientRect();
+      const anchor = viewStart + ((e.clientX - rect.left) / rect.width) * span;
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        zoomTo(zoom * (e.deltaY < 0 ? 1.25 : 0.8), anchor);
+      } else if (zoom > 1) {
+        e.preventDefault();
+        const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+        setViewStart(clampStart(viewStart + (delta / rect.width) * span, span));
+      }
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, [hasWaveform, zoom, viewStart, span, zoomTo, clampStart]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw segment shading and the waveform for the visible window
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || width === 0 || span === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    const height = canvas.clientHeight;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const x = (time: number) => ((time - viewStart) / span) * width;
+    segments.forEach((seg, index) => {
+      if (seg.endTime < viewStart || seg.startTime > viewStart + span) return;
+      ctx.fillStyle = index % 2 === 0 ? 'rgba(14, 165, 233, 0.08)' : 'rgba(14, 165, 233, 0.16)';
+      ctx.fillRect(x(seg.startTime), 0, x(seg.endTime) - x(seg.startTime), height);
+    });
+
+    const columns = Math.floor(width / 2);
+    const values = peaksForView(peaks, viewStart, span, columns);
+    const middle = height / 2;
+    ctx.fillStyle = '#9ca3af';
+    values.forEach((peak, column) => {
+      const barHeight = Math.max(1, peak * (height - 4));
+      ctx.fillRect(column * 2, middle - barHeight / 2, 1.5, barHeight);
+    });
+  }, [peaks, width, viewStart, span, segments]);
+
+  const isVisible = (time: number) => time >= viewStart && time <= viewStart + span;
+
   return (
-    <div 
-      className="relative w-full h-8 flex items-center cursor-pointer group select-none touch-none"
-      ref={containerRef}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleHoverMove}
-      onMouseLeave={handleHoverLeave}
-    >
-      {/* Hitbox area (larger than visible bar) */}
-      <div className="absolute inset-0 z-10" />
-
-      {/* Background Track */}
-      <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden pointer-events-none">
-        {/* Progress Fill */}
-        <div 
-          className="h-full bg-brand-500 will-change-[width]"
+    <div className="w-full">
+      <div 
+        className={`relative w-full ${hasWaveform ? 'h-16' : 'h-8'} flex items-center cursor-pointer group select-none touch-none rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-500 focus-visible:ring-offset-2`}
+        ref={containerRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration) || 0}
+        aria-valuenow={Math.round(activeTime)}
+        aria-valuetext={`${describeTime(activeTime)} of ${describeTime(duration)}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+        onPointerLeave={(e) => { if (!isDragging && e.pointerType !== 'touch') handleHoverLeave(); }}
+        onKeyDown={handleKeyDown}
+      >
+        <span className="sr-only" aria-live="polite">{announcement}</span>
+
+        {/* Hitbox area (larger than visible bar) */}
+        <div className="absolute inset-0 z-10" />
+
+        {/* Clips everything drawn in timeline coordinates to the visible window */}
+        <div className="absolute inset-0 flex items-center overflow-hidden pointer-events-none">
+          {hasWaveform ? (
+            <>
+              {/* Waveform, behind the progress fill */}
+              <canvas ref={canvasRef} className="absolute inset-0 w-full h-full bg-gray-50 rounded" />
+              <div
+                className="absolute inset-y-0 left-0 bg-brand-500/25 border-r-2 border-brand-600 will-change-[width]"
+                style={{
+                  width: `${Math.min(Math.max(progressPercent, 0), 100)}%`,
+                  transition: isDragging ? 'none' : 'width 0.1s linear'
+                }}
+              />
+            </>
+          ) : (
+            /* Background Track */
+            <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              {/* Progress Fill */}
+              <div 
+                className="h-full bg-brand-500 will-change-[width]"
+                style={{ 
+                  width: `${progressPercent}%`,
+                  transition: isDragging ? 'none' : 'width 0.1s linear'
+                }}
+              />
+            </div>
+          )}
+
+          {/* Segment Boundaries (the waveform shades segments instead) */}
+          {!hasWaveform && duration > 0 && segments.map(seg => seg.startTime > 0 && (
+            <div
+              key={seg.id}
+              className="absolute h-2.5 w-px bg-gray-400/70"
+              style={{ left: `${toPercent(seg.startTime)}%` }}
+            />
+          ))}
+
+          {/* A-B Repeat Range */}
+          {shownRange && (
+            <div
+              className={`absolute ${hasWaveform ? 'inset-y-0' : 'h-3'} bg-amber-300/60 border-x-2 border-amber-500 rounded-sm`}
+              style={{ left: `${toPercent(shownRange.start)}%`, width: `${toPercent(shownRange.end) - toPercent(shownRange.start)}%` }}
+            />
+          )}
+        </div>
+
+        {/* Playhead */}
+        {isVisible(activeTime) && !hasWaveform && <div 
+          className="absolute h-4 w-4 bg-white border-2 border-brand-600 rounded-full shadow-md z-20 pointer-events-none transform -translate-x-1/2 transition-transform duration-100 ease-out group-hover:scale-125"
           style={{ 
-            width: `${progressPercent}%`,
-            transition: isDragging ? 'none' : 'width 0.1s linear'
+            left: `${progressPercent}%`,
+            transition: isDragging ? 'none' : 'left 0.1s linear'
           }}
-        />
+        />}
+
+        {/* Hover Tooltip */}
+        {hoverTime !== null && hoverPos !== null && (
+          <div 
+            className="absolute bottom-full mb-1 bg-gray-900 text-white text-xs py-1 px-2 rounded shadow-lg transform -translate-x-1/2 pointer-events-none z-30 max-w-xs"
+            style={{ left: hoverPos }}
+          >
+            <span className="font-mono">{formatTime(hoverTime)}</span>
+            {hoverSegment && (
+              <p className="mt-0.5 w-max max-w-xs line-clamp-2 text-gray-200">{hoverSegment.original}</p>
+            )}
+          </div>
+        )}
       </div>
 
-      {/* Playhead */}
-      <div 
-        className="absolute h-4 w-4 bg-white border-2 border-brand-600 rounded-full shadow-md z-20 pointer-events-none transform -translate-x-1/2 transition-transform duration-100 ease-out group-hover:scale-125"
-        style={{ 
-          left: `${progressPercent}%`,
-          transition: isDragging ? 'none' : 'left 0.1s linear'
-        }}
-      />
-
-      {/* Hover Tooltip */}
-      {hoverTime !== null && hoverPos !== null && (
-        <div 
-          className="absolute -top-8 bg-gray-900 text-white text-xs py-1 px-2 rounded shadow-lg transform -translate-x-1/2 pointer-events-none z-30 whitespace-nowrap"
-          style={{ left: hoverPos }}
-        >
-          {formatTime(hoverTime)}
+      {hasWaveform && (
+        <div className="mt-1 flex items-center justify-end gap-1 text-xs text-gray-400">
+          {zoom > 1 && <span className="mr-auto">Scroll to pan · Ctrl + scroll to zoom</span>}
+          <button
+            onClick={() => zoomTo(zoom / 2, activeTime)}
+            disabled={zoom <= 1}
+            className="p-1 rounded hover:text-brand-600 hover:bg-brand-50 transition-colors disabled:opacity-40"
+            title="Zoom out"
+          >
+            <ZoomOut size={14} />
+          </button>
+          <span className="w-8 text-center font-mono">{zoom < 10 ? zoom.toFixed(1) : Math.round(zoom)}x</span>
+          <button
+            onClick={() => zoomTo(zoom * 2, activeTime)}
+            disabled={span <= MIN_VIEW_SPAN}
+            className="p-1 rounded hover:text-brand-600 hover:bg-brand-50 transition-colors disabled:opacity-40"
+            title="Zoom in"
+          >
+            <ZoomIn size={14} />
+          </button>
         </div>
       )}
     </div>
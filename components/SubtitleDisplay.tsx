@@ -1,13 +1,90 @@
-import React from 'react';
-import { SubtitleSegment } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Pencil, AlertTriangle } from 'lucide-react';
+import { Language, SubtitleSegment, GlossaryIssue, RuleViolation } from '../types';
+import { segmentLanguages } from '../services/subtitleService';
+import { getLanguageInfo } from '../services/languageService';
+
+// Label colours assigned to speakers in order of first appearance
+const SPEAKER_COLORS = [
+  'text-sky-700 bg-sky-100',
+  'text-rose-700 bg-rose-100',
+  'text-emerald-700 bg-emerald-100',
+  'text-amber-700 bg-amber-100',
+  'text-violet-700 bg-violet-100',
+  'text-teal-700 bg-teal-100',
+];
+
+const CONCEALED_CLASS = 'blur-sm select-none cursor-pointer';
+
+const groupBySegment = <T extends { segmentIndex: number }>(items: T[]): Map<number, T[]> => {
+  const grouped = new Map<number, T[]>();
+  for (const item of items) {
+    grouped.set(item.segmentIndex, [...(grouped.get(item.segmentIndex) ?? []), item]);
+  }
+  return grouped;
+};
 
 interface SubtitleDisplayProps {
   segments: SubtitleSegment[];
   currentTime: number;
   targetRef?: React.RefObject<HTMLDivElement>;
+  onEdit?: () => void;
+  // Called with a segment's start time when it is clicked
+  onSeek?: (time: number) => void;
+  // Self-testing: blur these lines until clicked
+  concealOriginal?: boolean;
+  concealTranslations?: boolean;
+  // Glossary terms not rendered as required; their segments are highlighted
+  glossaryIssues?: GlossaryIssue[];
+  // Segmentation rules each cue breaks
+  ruleViolations?: RuleViolation[];
 }
 
-export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ segments, currentTime }) => {
+export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({
+  segments,
+  currentTime,
+  onEdit,
+  onSeek,
+  concealOriginal = false,
+  concealTranslations = false,
+  glossaryIssues = [],
+  ruleViolations = []
+}) => {
+  // Languages are shown unless toggled off, so newly generated targets appear by default
+  const [hiddenLanguages, setHiddenLanguages] = useState<Language[]>([]);
+  const languages = useMemo(() => segmentLanguages(segments), [segments]);
+  const visibleLanguages = languages.filter(lang => !hiddenLanguages.includes(lang));
+  const speakers = useMemo(
+    () => Array.from(new Set(segments.map(seg => seg.speaker).filter(Boolean) as string[])),
+    [segments]
+  );
+  const speakerColor = (speaker: string) => SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+
+  // Concealed lines revealed by clicking, keyed by segment id and line
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  useEffect(() => {
+    setRevealed(new Set());
+  }, [segments, concealOriginal, concealTranslations]);
+
+  // Revealing a line should not also seek to it
+  const reveal = (e: React.MouseEvent, key: string) => {
+    e.stopPropagation();
+    setRevealed(prev => new Set(prev).add(key));
+  };
+
+  const toggleLanguage = (lang: Language) => {
+    setHiddenLanguages(prev =>
+      prev.includes(lang) ? prev.filter(l => l !== lang) : [...prev, lang]
+    );
+  };
+
+  const issuesBySegment = useMemo(() => groupBySegment(glossaryIssues), [glossaryIssues]);
+  const violationsBySegment = useMemo(() => groupBySegment(ruleViolations), [ruleViolations]);
+  const flaggedCount = useMemo(
+    () => new Set([...issuesBySegment.keys(), ...violationsBySegment.keys()]).size,
+    [issuesBySegment, violationsBySegment]
+  );
+
   // Find current active segment
   const activeIndex = segments.findIndex(
     seg => currentTime >= seg.startTime && currentTime < seg.endTime
@@ -15,8 +92,48 @@ export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ segments, curr
 
   return (
     <div className="w-full bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col h-64">
-      <div className="p-4 bg-gray-50 border-b border-gray-200">
-        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Subtitles</h3>
+      <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Subtitles</h3>
+          {onEdit && (
+            <button
+              onClick={onEdit}
+              className="p-1 text-gray-400 hover:text-brand-600 hover:bg-brand-50 rounded transition-colors"
+              title="Edit subtitles"
+            >
+              <Pencil size={14} />
+            </button>
+          )}
+          {flaggedCount > 0 && (
+            <span
+              className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-xs font-medium"
+              title={`${glossaryIssues.length} glossary issue${glossaryIssues.length === 1 ? '' : 's'}, ${ruleViolations.length} subtitle rule violation${ruleViolations.length === 1 ? '' : 's'}`}
+            >
+              <AlertTriangle size={12} />
+              {flaggedCount} to review
+            </span>
+          )}
+        </div>
+        {languages.length > 0 && (
+          <div className="flex flex-wrap justify-end gap-1 text-xs font-medium">
+            {languages.map(lang => {
+              const isVisible = visibleLanguages.includes(lang);
+              return (
+                <button
+                  key={lang}
+                  onClick={() => toggleLanguage(lang)}
+                  className={`px-2 py-0.5 rounded-full border transition-colors ${
+                    isVisible ? 'bg-white border-brand-500 text-brand-600' : 'border-gray-200 text-gray-400'
+                  }`}
+                  title={isVisible ? `Hide ${lang}` : `Show ${lang}`}
+                  aria-pressed={isVisible}
+                >
+                  {lang}
+                </button>
+              );
+            })}
+          </div>
+        )}
       </div>
       <div className="flex-1 overflow-y-auto p-6 space-y-6 relative scroll-smooth">
         {segments.length === 0 ? (
@@ -26,6 +143,12 @@ export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ segments, curr
         ) : (
           segments.map((seg, idx) => {
             const isActive = idx === activeIndex;
+            // In dual-language tracks, follow whichever part is being spoken
+            const spoken = seg.spokenTranslation;
+            const isTranslationSpoken = isActive && spoken !== undefined && currentTime >= seg.startTime + spoken.offset;
+            const isOriginalHidden = concealOriginal && !revealed.has(`${seg.id}:original`);
+            const issues = issuesBySegment.get(idx) ?? [];
+            const violations = violationsBySegment.get(idx) ?? [];
             return (
               <div 
                 key={seg.id}
@@ -34,14 +157,58 @@ export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ segments, curr
                   isActive 
                     ? 'opacity-100 scale-105 bg-brand-50 p-4 rounded-lg border-l-4 border-brand-500' 
                     : 'opacity-50 hover:opacity-80'
-                }`}
+                } ${(issues.length > 0 || violations.length > 0) && !isActive ? 'border-l-4 border-amber-400 pl-3' : ''} ${onSeek ? 'cursor-pointer' : ''}`}
+                onClick={onSeek ? () => onSeek(seg.startTime) : undefined}
               >
-                <p className={`text-lg font-medium leading-relaxed ${isActive ? 'text-gray-900' : 'text-gray-600'}`}>
+                {seg.speaker && (
+                  <span className={`inline-block mb-1 px-2 py-0.5 rounded text-xs font-semibold ${speakerColor(seg.speaker)}`}>
+                    {seg.speaker}
+                  </span>
+                )}
+                <p
+                  className={`text-lg font-medium leading-relaxed ${isActive && !isTranslationSpoken ? 'text-gray-900' : 'text-gray-600'} ${
+                    isOriginalHidden ? CONCEALED_CLASS : ''
+                  }`}
+                  onClick={isOriginalHidden ? (e) => reveal(e, `${seg.id}:original`) : undefined}
+                  title={isOriginalHidden ? 'Click to reveal' : undefined}
+                >
                   {seg.original}
                 </p>
-                <p className={`mt-1 text-base ${isActive ? 'text-brand-600' : 'text-gray-500'}`}>
-                  {seg.translated}
-                </p>
+                {visibleLanguages.map(lang => {
+                  const isHidden = concealTranslations && !revealed.has(`${seg.id}:${lang}`);
+                  return (
+                    <p
+                      key={lang}
+                      lang={getLanguageInfo(lang).code}
+                      className={`mt-1 text-base ${
+                        isTranslationSpoken && spoken?.language === lang
+                          ? 'font-semibold text-brand-700'
+                          : isActive ? 'text-brand-600' : 'text-gray-500'
+                      } ${isHidden ? CONCEALED_CLASS : ''} ${
+                        issues.some(issue => issue.language === lang) ? 'underline decoration-wavy decoration-amber-500' : ''
+                      }`}
+                      onClick={isHidden ? (e) => reveal(e, `${seg.id}:${lang}`) : undefined}
+                      title={isHidden ? 'Click to reveal' : undefined}
+                    >
+                      {seg.translations[lang]}
+                    </p>
+                  );
+                })}
+                {issues.map(issue => (
+                  <p key={`${issue.term}:${issue.language}`} className="mt-1 text-xs font-medium text-amber-600">
+                    Glossary: "{issue.term}" should be "{issue.expected}" in {issue.language}
+                  </p>
+                ))}
+                {violations.map(violation => (
+                  <p key={`${violation.rule}:${violation.language ?? ''}`} className="mt-1 text-xs font-medium text-amber-600">
+                    {violation.message}
+                  </p>
+                ))}
+                {seg.overrun !== undefined && (
+                  <p className="mt-1 text-xs font-medium text-amber-600">
+                    Speech overruns this cue by {seg.overrun.toFixed(2)}s
+                  </p>
+                )}
               </div>
             );
           })
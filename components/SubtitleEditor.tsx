@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Merge, Redo2, Scissors, Trash2, Undo2 } from 'lucide-react';
+import { Language, SubtitleSegment } from '../types';
+import { segmentLanguages } from '../services/subtitleService';
+import { getLanguageInfo } from '../services/languageService';
+import { markupFields } from '../services/markupService';
+
+interface SubtitleEditorProps {
+  segments: SubtitleSegment[];
+  // Index of the segment whose audio is being re-synthesized, if any
+  busyIndex: number | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  onChange: (index: number, changes: Partial<Omit<SubtitleSegment, 'id'>>) => void;
+  onSplit: (index: number, offset?: number) => void;
+  onMerge: (index: number) => void;
+  onMove: (index: number, direction: -1 | 1) => void;
+  onDelete: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDone: () => void;
+}
+
+interface SegmentRowProps {
+  segment: SubtitleSegment;
+  index: number;
+  count: number;
+  languages: Language[];
+  disabled: boolean;
+  isBusy: boolean;
+  onChange: SubtitleEditorProps['onChange'];
+  onSplit: SubtitleEditorProps['onSplit'];
+  onMerge: SubtitleEditorProps['onMerge'];
+  onMove: SubtitleEditorProps['onMove'];
+  onDelete: SubtitleEditorProps['onDelete'];
+}
+
+const inputClass = "w-full bg-gray-50 border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-brand-500 disabled:opacity-60";
+const iconButtonClass = "p-1.5 text-gray-400 hover:text-brand-600 hover:bg-brand-50 rounded transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+/**
+ * One editable segment. Fields are drafted locally and committed on blur,
+ * so each edit is a single undo step rather than one per keystroke.
+ */
+const SegmentRow: React.FC<SegmentRowProps> = ({
+  segment,
+  index,
+  count,
+  languages,
+  disabled,
+  isBusy,
+  onChange,
+  onSplit,
+  onMerge,
+  onMove,
+  onDelete
+}) => {
+  // Marked-up segments are edited with their markup
+  const source = segment.markup ?? segment.original;
+  const [original, setOriginal] = useState(source);
+  const [translations, setTranslations] = useState(segment.translations);
+  const [startTime, setStartTime] = useState(segment.startTime.toFixed(2));
+  const [endTime, setEndTime] = useState(segment.endTime.toFixed(2));
+  const caretRef = useRef<number | null>(null);
+
+  // Re-sync drafts when the segment changes from outside (undo, split, re-synthesis)
+  useEffect(() => {
+    setOriginal(segment.markup ?? segment.original);
+    setTranslations(segment.translations);
+    setStartTime(segment.startTime.toFixed(2));
+    setEndTime(segment.endTime.toFixed(2));
+  }, [segment]);
+
+  const commitTimes = () => {
+    const start = Number(startTime);
+    const end = Number(endTime);
+    if (!isFinite(start) || !isFinite(end) || start < 0 || end <= start) {
+      setStartTime(segment.startTime.toFixed(2));
+      setEndTime(segment.endTime.toFixed(2));
+      return;
+    }
+    if (start !== segment.startTime || end !== segment.endTime) {
+      onChange(index, { startTime: start, endTime: end });
+    }
+  };
+
+  return (
+    <div className={`rounded-lg border p-3 space-y-2 ${isBusy ? 'border-brand-500 bg-brand-50 animate-pulse' : 'border-gray-100'}`}>
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span className="font-mono text-gray-400">#{index + 1}</span>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={startTime}
+          onChange={(e) => setStartTime(e.target.value)}
+          onBlur={commitTimes}
+          disabled={disabled}
+          className={`${inputClass} w-20 font-mono`}
+          title="Start (seconds)"
+        />
+        <span>→</span>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={endTime}
+          onChange={(e) => setEndTime(e.target.value)}
+          onBlur={commitTimes}
+          disabled={disabled}
+          className={`${inputClass} w-20 font-mono`}
+          title="End (seconds)"
+        />
+        <div className="ml-auto flex items-center">
+          <button onClick={() => onSplit(index, segment.markup ? undefined : caretRef.current ?? undefined)} disabled={disabled} className={iconButtonClass} title="Split at cursor">
+            <Scissors size={14} />
+          </button>
+          <button onClick={() => onMerge(index)} disabled={disabled || index === count - 1} className={iconButtonClass} title="Merge with next">
+            <Merge size={14} />
+          </button>
+          <button onClick={() => onMove(index, -1)} disabled={disabled || index === 0} className={iconButtonClass} title="Move up">
+            <ArrowUp size={14} />
+          </button>
+          <button onClick={() => onMove(index, 1)} disabled={disabled || index === count - 1} className={iconButtonClass} title="Move down">
+            <ArrowDown size={14} />
+          </button>
+          <button onClick={() => onDelete(index)} disabled={disabled} className={`${iconButtonClass} hover:text-red-600 hover:bg-red-50`} title="Delete">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <textarea
+        value={original}
+        rows={2}
+        onChange={(e) => setOriginal(e.target.value)}
+        onSelect={(e) => { caretRef.current = e.currentTarget.selectionStart; }}
+        onBlur={() => {
+          const trimmed = original.trim();
+          if (trimmed && trimmed !== source) {
+            onChange(index, markupFields(trimmed));
+          } else {
+            setOriginal(source);
+          }
+        }}
+        disabled={disabled}
+        className={`${inputClass} text-sm text-gray-900 resize-none`}
+        title="Original (changing it re-synthesizes this segment)"
+      />
+
+      {languages.map(lang => (
+        <input
+          key={lang}
+          lang={getLanguageInfo(lang).code}
+          value={translations[lang] ?? ''}
+          onChange={(e) => setTranslations(prev => ({ ...prev, [lang]: e.target.value }))}
+          onBlur={() => {
+            const value = (translations[lang] ?? '').trim();
+            if (value !== (segment.translations[lang] ?? '')) {
+              onChange(index, { translations: { ...segment.translations, [lang]: value } });
+            }
+          }}
+          disabled={disabled}
+          className={`${inputClass} text-sm text-brand-600`}
+          title={lang}
+          placeholder={lang}
+        />
+      ))}
+    </div>
+  );
+};
+
+export const SubtitleEditor: React.FC<SubtitleEditorProps> = ({
+  segments,
+  busyIndex,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onDone,
+  ...rowHandlers
+}) => {
+  const languages = segmentLanguages(segments);
+  const disabled = busyIndex !== null;
+
+  return (
+    <div className="w-full bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden flex flex-col h-[32rem]">
+      <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Edit Subtitles</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={!canUndo || disabled} className={iconButtonClass} title="Undo">
+            <Undo2 size={16} />
+          </button>
+          <button onClick={onRedo} disabled={!canRedo || disabled} className={iconButtonClass} title="Redo">
+            <Redo2 size={16} />
+          </button>
+          <button
+            onClick={onDone}
+            className="ml-1 flex items-center gap-1 px-2.5 py-1 text-xs font-medium rounded-md bg-brand-600 text-white hover:bg-brand-700 transition-colors"
+          >
+            <Check size={14} />
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {segments.map((seg, idx) => (
+          <SegmentRow
+            key={seg.id}
+            segment={seg}
+            index={idx}
+            count={segments.length}
+            languages={languages}
+            disabled={disabled}
+            isBusy={busyIndex === idx}
+            {...rowHandlers}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
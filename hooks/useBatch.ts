@@ -0,0 +1,60 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { AIProvider, BatchItem, Language, SourceLanguage } from '../types';
+import { runBatch, BatchOptions } from '../services/batchService';
+
+/**
+ * Queue state for batch generation. Items keep their outputs until removed, so failed
+ * ones can be retried without redoing the rest.
+ */
+export const useBatch = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const add = useCallback((added: BatchItem[]) => {
+    setItems(prev => [...prev, ...added.filter(item => item.text)]);
+  }, []);
+
+  const remove = useCallback((index: number) => {
+    setItems(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  /**
+   * Runs the items at `indexes`, or every item not yet done. The queue is locked
+   * (no adding or removing) while a run is in progress.
+   */
+  const run = async (
+    provider: AIProvider,
+    sourceSelection: SourceLanguage,
+    targetLangs: Language[],
+    voiceId: string,
+    options: Omit<BatchOptions, 'signal' | 'onItemChange'>,
+    indexes = items.map((item, i) => (item.status === 'done' ? -1 : i)).filter(i => i !== -1)
+  ) => {
+    if (isRunning || indexes.length === 0) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+
+    const working = [...items];
+    setItems(prev => prev.map((item, i) => (indexes.includes(i) ? { ...item, status: 'queued', error: undefined } : item)));
+    try {
+      await runBatch(working, indexes, provider, sourceSelection, targetLangs, voiceId, {
+        ...options,
+        signal: controller.signal,
+        onItemChange: (index, item) => setItems(prev => prev.map((existing, i) => (i === index ? item : existing)))
+      });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  return { items, isRunning, add, remove, clear, run, cancel };
+};
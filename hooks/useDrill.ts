@@ -0,0 +1,148 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SubtitleSegment, DrillSettings, LoopRange } from '../types';
+
+// Crossing a boundary by more than this counts as a user seek rather than playback
+const SEEK_TOLERANCE = 0.5;
+
+/**
+ * Drives learner playback on top of an audio element: sentence loops with shadowing
+ * pauses, and A-B repeat. Boundaries are checked every animation frame because
+ * `timeupdate` fires too rarely to stop cleanly at the end of a sentence.
+ */
+export const useDrill = (
+  audioRef: React.RefObject<HTMLAudioElement | null>,
+  segments: SubtitleSegment[],
+  settings: DrillSettings,
+  loopRange: LoopRange | null
+) => {
+  const [isShadowing, setIsShadowing] = useState(false);
+  const [repetition, setRepetition] = useState(0);
+
+  // Segment being drilled and how many times it has finished playing
+  const drillRef = useRef({ index: -1, plays: 0 });
+  const inRangeRef = useRef(false);
+  const shadowTimerRef = useRef<number | null>(null);
+  const pendingRef = useRef<(() => void) | null>(null);
+
+  const clearShadow = useCallback(() => {
+    if (shadowTimerRef.current !== null) {
+      clearTimeout(shadowTimerRef.current);
+      shadowTimerRef.current = null;
+    }
+    setIsShadowing(false);
+  }, []);
+
+  /**
+   * Stops a running shadowing pause without resuming playback.
+   */
+  const cancel = useCallback(() => {
+    clearShadow();
+    pendingRef.current = null;
+  }, [clearShadow]);
+
+  useEffect(() => {
+    drillRef.current = { index: -1, plays: 0 };
+    setRepetition(0);
+    cancel();
+  }, [segments, settings.enabled, cancel]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    // Pressing play during a shadowing pause skips the rest of the pause
+    const onPlay = () => {
+      const pending = pendingRef.current;
+      if (!pending) return;
+      pendingRef.current = null;
+      clearShadow();
+      pending();
+    };
+
+    // One play of the drilled sentence finished: pause for shadowing, then replay or move on
+    const finishPlay = (seg: SubtitleSegment) => {
+      const drill = drillRef.current;
+      drill.plays += 1;
+      setRepetition(drill.plays);
+      const again = drill.plays < settings.repeats;
+      const restart = () => {
+        if (again) {
+          audio.currentTime = seg.startTime;
+        } else {
+          // Done with this sentence; the next one is picked up as playback reaches it
+          drillRef.current = { index: -1, plays: 0 };
+        }
+      };
+
+      const pause = (seg.endTime - seg.startTime) * settings.pauseFactor;
+      if (pause <= 0 && !audio.ended) {
+        restart();
+        return;
+      }
+      audio.pause();
+      setIsShadowing(true);
+      pendingRef.current = restart;
+      shadowTimerRef.current = window.setTimeout(() => {
+        shadowTimerRef.current = null;
+        // A finished track only plays on when there is a repeat left
+        if (!audio.ended || again) audio.play();
+        else onPlay();
+      }, pause * 1000);
+    };
+
+    // The last sentence may run to the very end of the track, where frames stop
+    const onEnded = () => {
+      const seg = segments[drillRef.current.index];
+      if (settings.enabled && seg && audio.currentTime >= seg.endTime - SEEK_TOLERANCE) {
+        finishPlay(seg);
+      }
+    };
+
+    let frame = 0;
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      if (audio.paused) return;
+      const t = audio.currentTime;
+
+      if (loopRange) {
+        if (t >= loopRange.start && t < loopRange.end) {
+          inRangeRef.current = true;
+        } else if (inRangeRef.current && t >= loopRange.end && t < loopRange.end + SEEK_TOLERANCE) {
+          audio.currentTime = loopRange.start;
+          return;
+        } else {
+          inRangeRef.current = false;
+        }
+      }
+
+      if (!settings.enabled) return;
+      const drill = drillRef.current;
+      const seg = segments[drill.index];
+
+      if (seg && t >= seg.endTime && t < seg.endTime + SEEK_TOLERANCE) {
+        finishPlay(seg);
+        return;
+      }
+
+      const index = segments.findIndex(s => t >= s.startTime && t < s.endTime);
+      if (index !== -1 && index !== drill.index) {
+        drillRef.current = { index, plays: 0 };
+        setRepetition(0);
+      }
+    };
+
+    frame = requestAnimationFrame(tick);
+    audio.addEventListener('play', onPlay);
+    audio.addEventListener('ended', onEnded);
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('play', onPlay);
+      audio.removeEventListener('ended', onEnded);
+    };
+  }, [audioRef, segments, settings, loopRange, clearShadow]);
+
+  // Never leave a timer running after unmount
+  useEffect(() => cancel, [cancel]);
+
+  return { isShadowing, repetition, cancel };
+};
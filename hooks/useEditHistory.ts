@@ -0,0 +1,46 @@
+import { useState, useCallback } from 'react';
+
+/**
+ * Undo/redo stacks of snapshots. The caller owns the current value and passes it in,
+ * so the hook never holds a stale copy of it.
+ */
+export const useEditHistory = <T,>(limit = 50) => {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  // Call before applying an edit, with the value being replaced
+  const record = useCallback((current: T) => {
+    setPast(prev => [...prev.slice(-(limit - 1)), current]);
+    setFuture([]);
+  }, [limit]);
+
+  const undo = useCallback((current: T): T | null => {
+    if (past.length === 0) return null;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture(prev => [current, ...prev]);
+    return previous;
+  }, [past]);
+
+  const redo = useCallback((current: T): T | null => {
+    if (future.length === 0) return null;
+    const next = future[0];
+    setFuture(future.slice(1));
+    setPast(prev => [...prev, current]);
+    return next;
+  }, [future]);
+
+  const clear = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  return {
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    record,
+    undo,
+    redo,
+    clear
+  };
+};
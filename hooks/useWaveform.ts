@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { PeakLevel, computePeakLevels } from '../services/waveformService';
+
+/**
+ * Waveform peaks for a PCM track, computed in a worker. Returns null until ready.
+ */
+export const useWaveform = (pcm: Uint8Array | null): PeakLevel[] | null => {
+  const [levels, setLevels] = useState<PeakLevel[] | null>(null);
+
+  useEffect(() => {
+    setLevels(null);
+    if (!pcm) return;
+
+    if (typeof Worker === 'undefined') {
+      setLevels(computePeakLevels(pcm));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/waveformWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PeakLevel[]>) => {
+      setLevels(event.data);
+      worker.terminate();
+    };
+    worker.onerror = (error) => {
+      console.error("Waveform worker failed:", error);
+      worker.terminate();
+    };
+    // Transfer a copy so the track itself stays usable here
+    const copy = pcm.slice();
+    worker.postMessage(copy, [copy.buffer]);
+
+    return () => worker.terminate();
+  }, [pcm]);
+
+  return levels;
+};
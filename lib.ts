@@ -0,0 +1,85 @@
+import { AIProvider, AUTO_DETECT, Language, ProcessOptions, SourceLanguage, SubtitleFormat, SubtitleSegment, SubtitleTrack, JobProgress } from "./types";
+import { createChunkJob, runChunkJob } from "./services/jobService";
+import { geminiProvider } from "./services/geminiService";
+import { findVoice, resolveSourceLanguage, resolveTargets, voicesForLanguage } from "./services/languageService";
+import { formatSubtitles } from "./services/subtitleService";
+import { base64ToPcm, pcmToWav } from "./services/audioUtils";
+import { InvalidInputError } from "./services/errors";
+
+/**
+ * Library entry point: the generation pipeline without the React app, for scripts and
+ * build pipelines. Everything exported here runs in Node as well as in the browser and
+ * returns plain bytes and strings.
+ */
+
+export * from "./types";
+export { processContent, processDialogue, processSubtitles, synthesizeSegments, alignSegments, speakTranslations } from "./services/pipelineService";
+export { createChunkJob, runChunkJob, splitIntoChunks } from "./services/jobService";
+export { createGeminiProvider, geminiProvider } from "./services/geminiService";
+export { createMockProvider, mockProvider } from "./services/mockProvider";
+export { PROVIDERS, getProvider } from "./services/providers";
+export { formatSubtitles, parseSubtitles } from "./services/subtitleService";
+export { parseDialogue } from "./services/dialogueService";
+export { SAMPLE_RATE, base64ToPcm, pcmToBase64, pcmToWav, wavToPcm, pcmDuration } from "./services/audioUtils";
+export { detectLanguage, findLanguage, findVoice, resolveSourceLanguage, resolveTargets } from "./services/languageService";
+export * from "./services/errors";
+
+export interface GenerateOptions extends ProcessOptions {
+  // Defaults to Gemini, which reads its key from `GEMINI_API_KEY` or `API_KEY` in the environment
+  provider?: AIProvider;
+  sourceLang?: SourceLanguage;
+  targetLangs?: Language[];
+  // Voice id or name; defaults to the first voice suited to the source language
+  voice?: string;
+  subtitleFormat?: SubtitleFormat;
+  subtitleTrack?: SubtitleTrack;
+  onProgress?: (progress: JobProgress) => void;
+}
+
+export interface GenerateOutput {
+  sourceLang: Language;
+  targetLangs: Language[];
+  voiceId: string;
+  segments: SubtitleSegment[];
+  // Raw PCM (24kHz, 16-bit, Mono) and the same audio as a WAV file
+  pcm: Uint8Array;
+  wav: Uint8Array;
+  subtitles: string;
+}
+
+/**
+ * Translates, voices and times `text` the way the app does, chunking long input.
+ */
+export const generate = async (text: string, options: GenerateOptions = {}): Promise<GenerateOutput> => {
+  const {
+    provider = geminiProvider,
+    sourceLang: sourceSelection = AUTO_DETECT,
+    targetLangs = [],
+    voice: voiceName,
+    subtitleFormat = 'srt',
+    subtitleTrack = 'both',
+    ...processOptions
+  } = options;
+
+  if (!text.trim()) {
+    throw new InvalidInputError("There is no text to generate from.");
+  }
+  const sourceLang = resolveSourceLanguage(text, sourceSelection);
+  const targets = resolveTargets(targetLangs, sourceLang);
+  const voice = voiceName ? findVoice(voiceName) : voicesForLanguage(sourceLang)[0];
+  if (!voice) {
+    throw new InvalidInputError(`Unknown voice "${voiceName}".`);
+  }
+
+  const result = await runChunkJob(createChunkJob(text), provider, sourceLang, targets, voice.name, processOptions);
+  const pcm = base64ToPcm(result.audioBase64);
+  return {
+    sourceLang,
+    targetLangs: targets,
+    voiceId: voice.id,
+    segments: result.segments,
+    pcm,
+    wav: pcmToWav(pcm),
+    subtitles: formatSubtitles(result.segments, subtitleFormat, subtitleTrack),
+  };
+};
@@ -0,0 +1,90 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment } from '../types';
+import { detectSilences, snapToSilences } from './alignmentService';
+import { wavToPcm } from './audioUtils';
+
+// Fixtures are 8kHz mono WAVs of a modulated harmonic tone ("speech") separated by
+// near-silent pauses at known positions:
+//   three-phrases.wav  pause 0-0.2, speech 0.2-1.0, pause 1.0-1.4, speech 1.4-2.4,
+//                      pause 2.4-2.7, speech 2.7-3.3, pause 3.3-3.55
+//   one-phrase.wav     pause 0-0.1, speech 0.1-2.1, pause 2.1-2.6
+const loadFixture = (name: string) => {
+  const { pcm, sampleRate } = wavToPcm(new Uint8Array(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url))));
+  return { pcm, options: { sampleRate } };
+};
+
+// Frame-based analysis places edges within about one frame of the truth
+const TOLERANCE = 0.03;
+
+const segments = (starts: number[], duration: number): SubtitleSegment[] =>
+  starts.map((startTime, id) => ({
+    id,
+    original: `Segment ${id}`,
+    translations: {},
+    startTime,
+    endTime: starts[id + 1] ?? duration
+  }));
+
+describe('detectSilences', () => {
+  it('finds the leading, inner and trailing pauses', () => {
+    const { pcm, options } = loadFixture('three-phrases.wav');
+    const silences = detectSilences(pcm, options);
+
+    const expected = [[0, 0.2], [1.0, 1.4], [2.4, 2.7], [3.3, 3.55]];
+    expect(silences).toHaveLength(expected.length);
+    silences.forEach((silence, i) => {
+      expect(Math.abs(silence.start - expected[i][0])).toBeLessThan(TOLERANCE);
+      expect(Math.abs(silence.end - expected[i][1])).toBeLessThan(TOLERANCE);
+    });
+  });
+
+  it('ignores pauses shorter than minSilence', () => {
+    const { pcm, options } = loadFixture('three-phrases.wav');
+    const silences = detectSilences(pcm, { ...options, minSilence: 0.35 });
+
+    expect(silences).toHaveLength(1);
+    expect(Math.abs(silences[0].start - 1.0)).toBeLessThan(TOLERANCE);
+  });
+
+  it('returns nothing for digital silence', () => {
+    expect(detectSilences(new Uint8Array(8000 * 2), { sampleRate: 8000 })).toEqual([]);
+  });
+});
+
+describe('snapToSilences', () => {
+  it('moves estimated boundaries to the middle of nearby pauses and trims the ends', () => {
+    const { pcm, options } = loadFixture('three-phrases.wav');
+    const aligned = snapToSilences(segments([0, 0.9, 2.9], 3.55), pcm, options);
+
+    expect(Math.abs(aligned[0].startTime - 0.2)).toBeLessThan(TOLERANCE);
+    expect(Math.abs(aligned[1].startTime - 1.2)).toBeLessThan(TOLERANCE);
+    expect(Math.abs(aligned[2].startTime - 2.55)).toBeLessThan(TOLERANCE);
+    expect(Math.abs(aligned[2].endTime - 3.3)).toBeLessThan(TOLERANCE);
+    aligned.slice(1).forEach((seg, i) => expect(seg.startTime).toBe(aligned[i].endTime));
+  });
+
+  it('keeps a boundary with no pause inside the search window', () => {
+    const { pcm, options } = loadFixture('three-phrases.wav');
+    const aligned = snapToSilences(segments([0, 1.9], 3.55), pcm, { ...options, searchWindow: 0.2 });
+
+    expect(aligned[1].startTime).toBe(1.9);
+  });
+
+  it('never starts the last segment after the speech ends', () => {
+    const { pcm, options } = loadFixture('one-phrase.wav');
+    // The prior puts the second boundary inside the trailing pause, with no inner pause to snap to
+    const aligned = snapToSilences(segments([0, 1.2, 2.4], 2.6), pcm, options);
+
+    const last = aligned[aligned.length - 1];
+    expect(Math.abs(last.endTime - 2.1)).toBeLessThan(TOLERANCE);
+    for (const seg of aligned) {
+      expect(seg.startTime).toBeLessThanOrEqual(seg.endTime);
+    }
+  });
+
+  it('returns an empty prior unchanged', () => {
+    const { pcm, options } = loadFixture('one-phrase.wav');
+    expect(snapToSilences([], pcm, options)).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import { SubtitleSegment } from "../types";
+import { SAMPLE_RATE } from "./audioUtils";
+
+/**
+ * Offline forced alignment: snaps estimated segment boundaries to real pauses
+ * found by RMS energy analysis of the PCM. Pure computation, no network or DOM.
+ */
+
+export interface SilenceRegion {
+  start: number; // seconds
+  end: number;   // seconds
+}
+
+export interface AlignmentOptions {
+  sampleRate?: number;
+  frameSize?: number;       // seconds per RMS window
+  hopSize?: number;         // seconds between RMS windows
+  minSilence?: number;      // shortest pause (seconds) that counts as a boundary
+  thresholdDb?: number;     // silence threshold relative to the loudest frame
+  searchWindow?: number;    // max distance (seconds) a boundary may move from its prior
+}
+
+const DEFAULTS: Required<AlignmentOptions> = {
+  sampleRate: SAMPLE_RATE,
+  frameSize: 0.02,
+  hopSize: 0.01,
+  minSilence: 0.12,
+  thresholdDb: -35,
+  searchWindow: 1.5,
+};
+
+/**
+ * Decodes 16-bit little-endian PCM bytes into normalized float samples.
+ */
+export const decodePcm16 = (pcm: Uint8Array): Float32Array => {
+  const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const samples = new Float32Array(Math.floor(pcm.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 32768;
+  }
+  return samples;
+};
+
+/**
+ * Encodes normalized float samples back into 16-bit little-endian PCM, clipping at full scale.
+ */
+export const encodePcm16 = (samples: Float32Array): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, Math.max(-32768, Math.min(32767, Math.round(samples[i] * 32768))), true);
+  }
+  return new Uint8Array(view.buffer);
+};
+
+/**
+ * RMS energy per frame, sampled every `hopSize` seconds.
+ */
+export const computeRmsEnvelope = (
+  samples: Float32Array,
+  sampleRate: number,
+  frameSize: number,
+  hopSize: number
+): Float32Array => {
+  const frame = Math.max(1, Math.round(frameSize * sampleRate));
+  const hop = Math.max(1, Math.round(hopSize * sampleRate));
+  const count = Math.max(0, Math.floor((samples.length - frame) / hop) + 1);
+  const envelope = new Float32Array(count);
+
+  for (let f = 0; f < count; f++) {
+    const offset = f * hop;
+    let sum = 0;
+    for (let i = offset; i < offset + frame; i++) {
+      sum += samples[i] * samples[i];
+    }
+    envelope[f] = Math.sqrt(sum / frame);
+  }
+  return envelope;
+};
+
+/**
+ * Finds runs of low-energy frames at least `minSilence` long.
+ */
+export const detectSilences = (pcm: Uint8Array, options: AlignmentOptions = {}): SilenceRegion[] => {
+  const { sampleRate, frameSize, hopSize, minSilence, thresholdDb } = { ...DEFAULTS, ...options };
+  const envelope = computeRmsEnvelope(decodePcm16(pcm), sampleRate, frameSize, hopSize);
+
+  const peak = envelope.reduce((max, v) => Math.max(max, v), 0);
+  if (peak === 0) return [];
+  const threshold = peak * Math.pow(10, thresholdDb / 20);
+
+  // Frame f covers [f * hop, f * hop + frameSize]; report the centre-to-centre span
+  const frameTime = (f: number) => f * hopSize + frameSize / 2;
+  const regions: SilenceRegion[] = [];
+  let runStart = -1;
+
+  for (let f = 0; f <= envelope.length; f++) {
+    const silent = f < envelope.length && envelope[f] < threshold;
+    if (silent && runStart === -1) {
+      runStart = f;
+    } else if (!silent && runStart !== -1) {
+      const start = runStart === 0 ? 0 : frameTime(runStart);
+      const end = f === envelope.length ? pcm.byteLength / 2 / sampleRate : frameTime(f - 1);
+      if (end - start >= minSilence) {
+        regions.push({ start, end });
+      }
+      runStart = -1;
+    }
+  }
+  return regions;
+};
+
+/**
+ * Moves each internal boundary of `prior` to the middle of the nearest unused pause
+ * within the search window, keeping boundaries in order. Boundaries with no pause nearby
+ * stay where the prior put them. Leading and trailing silence is trimmed from the ends.
+ */
+export const snapToSilences = (
+  prior: SubtitleSegment[],
+  pcm: Uint8Array,
+  options: AlignmentOptions = {}
+): SubtitleSegment[] => {
+  if (prior.length === 0) return prior;
+  const settings = { ...DEFAULTS, ...options };
+  const duration = pcm.byteLength / 2 / settings.sampleRate;
+  const silences = detectSilences(pcm, settings);
+
+  const leading = silences[0]?.start === 0 ? silences[0] : null;
+  const trailing = silences.length > 0 && silences[silences.length - 1].end >= duration ? silences[silences.length - 1] : null;
+  const inner = silences.filter(s => s !== leading && s !== trailing);
+  const start = leading ? leading.end : 0;
+  const end = trailing ? trailing.start : duration;
+
+  const boundaries: number[] = [];
+  let nextSilence = 0;
+  let lastBoundary = leading ? leading.end : 0;
+
+  for (let i = 1; i < prior.length; i++) {
+    const estimate = prior[i].startTime;
+    let best = -1;
+    let bestDistance = settings.searchWindow;
+
+    // Silences are sorted, so only those after the last used one keep boundaries ordered
+    for (let s = nextSilence; s < inner.length; s++) {
+      const mid = (inner[s].start + inner[s].end) / 2;
+      if (mid <= lastBoundary) continue;
+      if (mid - estimate > settings.searchWindow) break;
+      const distance = Math.abs(mid - estimate);
+      if (distance <= bestDistance) {
+        best = s;
+        bestDistance = distance;
+      }
+    }
+
+    if (best !== -1) {
+      boundaries.push((inner[best].start + inner[best].end) / 2);
+      nextSilence = best + 1;
+    } else {
+      // Never past the end of speech, or the last segment would end before it starts
+      boundaries.push(Math.min(Math.max(estimate, lastBoundary), Math.max(end, lastBoundary)));
+    }
+    lastBoundary = boundaries[boundaries.length - 1];
+  }
+
+  return prior.map((seg, i) => ({
+    ...seg,
+    startTime: i === 0 ? start : boundaries[i - 1],
+    endTime: i === prior.length - 1 ? end : boundaries[i]
+  }));
+};
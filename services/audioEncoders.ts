@@ -0,0 +1,174 @@
+import { AudioExportOptions } from "../types";
+import { SAMPLE_RATE, pcmToWav, concatPcm } from "./audioUtils";
+import { decodePcm16 } from "./alignmentService";
+
+/**
+ * Encoders behind audio export. They run inside the export worker, so everything
+ * here works without the DOM. Codec libraries are imported on first use, so a codec
+ * that cannot load only fails exports in that format.
+ */
+
+/**
+ * Resamples with Catmull-Rom interpolation, which is plenty for upsampling speech.
+ */
+export const resample = (samples: Float32Array, from: number, to: number): Float32Array => {
+  if (from === to) return samples;
+  const length = Math.round((samples.length * to) / from);
+  const result = new Float32Array(length);
+  const at = (i: number) => samples[Math.min(Math.max(i, 0), samples.length - 1)];
+
+  for (let i = 0; i < length; i++) {
+    const position = (i * from) / to;
+    const index = Math.floor(position);
+    const t = position - index;
+    const p0 = at(index - 1), p1 = at(index), p2 = at(index + 1), p3 = at(index + 2);
+    result[i] = p1 + 0.5 * t * (p2 - p0 + t * (2 * p0 - 5 * p1 + 4 * p2 - p3 + t * (3 * (p1 - p2) + p3 - p0)));
+  }
+  return result;
+};
+
+/**
+ * Decodes the 24kHz mono PCM into one Float32Array per output channel at the target rate.
+ */
+export const prepareChannels = (pcm: Uint8Array, options: AudioExportOptions): Float32Array[] => {
+  const mono = resample(decodePcm16(pcm), SAMPLE_RATE, options.sampleRate);
+  return options.stereo ? [mono, mono] : [mono];
+};
+
+// Codec modules by import-map name. Module workers do not see the page's import map,
+// so in the browser callers pass URLs resolved on the main thread instead
+export const MP3_MODULE = 'wasm-media-encoders';
+export const FLAC_MODULE = 'libflacjs/dist/libflac.min.wasm.js';
+
+const toInt16 = (value: number) => Math.max(-32768, Math.min(32767, Math.round(value * 32767)));
+
+export const encodeWav = (channels: Float32Array[], sampleRate: number): Uint8Array => {
+  const frames = channels[0].length;
+  const view = new DataView(new ArrayBuffer(frames * channels.length * 2));
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((channel, c) => view.setInt16((i * channels.length + c) * 2, toInt16(channel[i]), true));
+  }
+  return pcmToWav(new Uint8Array(view.buffer), sampleRate, channels.length);
+};
+
+// Constant bitrates that keep narration clear at a fraction of the WAV size
+const MP3_BITRATE = { mono: 64, stereo: 128 } as const;
+
+export const encodeMp3 = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  moduleUrl = MP3_MODULE
+): Promise<Uint8Array> => {
+  const { createMp3Encoder }: typeof import('wasm-media-encoders') = await import(/* @vite-ignore */ moduleUrl);
+  const encoder = await createMp3Encoder();
+  encoder.configure({
+    sampleRate,
+    channels: channels.length as 1 | 2,
+    bitrate: channels.length > 1 ? MP3_BITRATE.stereo : MP3_BITRATE.mono,
+  });
+
+  // The encoder owns its output buffer, so each chunk is copied before the next call
+  const chunks: Uint8Array[] = [];
+  const block = sampleRate * 10;
+  for (let start = 0; start < channels[0].length; start += block) {
+    chunks.push(encoder.encode(channels.map(c => c.subarray(start, start + block))).slice());
+  }
+  chunks.push(encoder.finalize().slice());
+  return concatPcm(chunks);
+};
+
+type FlacModule = typeof import('libflacjs/dist/libflac.min.wasm');
+type StreamMetadata = import('libflacjs/dist/libflac.min.wasm').StreamMetadata;
+
+let flacPromise: Promise<FlacModule> | null = null;
+
+/**
+ * Loads libflac once from `moduleUrl`. `wasmUrl` tells the Emscripten loader where its
+ * binary lives.
+ */
+const loadFlac = (moduleUrl: string, wasmUrl?: string): Promise<FlacModule> => {
+  if (!flacPromise) {
+    flacPromise = (async () => {
+      if (wasmUrl) {
+        (globalThis as { FLAC_SCRIPT_LOCATION?: Record<string, string> }).FLAC_SCRIPT_LOCATION = {
+          'libflac.min.wasm.wasm': wasmUrl,
+        };
+      }
+      const module = await import(/* @vite-ignore */ moduleUrl);
+      const Flac = ((module as { default?: FlacModule }).default ?? module) as FlacModule;
+      if (!Flac.isReady()) {
+        await new Promise<void>(resolve => Flac.on('ready', () => resolve()));
+      }
+      return Flac;
+    })();
+  }
+  return flacPromise;
+};
+
+// Byte offset of the STREAMINFO body: "fLaC" marker plus the 4-byte block header
+const STREAMINFO_OFFSET = 8;
+
+/**
+ * Writes the final STREAMINFO (frame sizes, sample count, MD5) into the stream header.
+ * The encoder only knows these once it has finished, after the header was emitted.
+ */
+const writeStreamInfo = (flac: Uint8Array, info: StreamMetadata): void => {
+  const view = new DataView(flac.buffer, flac.byteOffset + STREAMINFO_OFFSET, 34);
+  view.setUint16(0, info.min_blocksize);
+  view.setUint16(2, info.max_blocksize);
+  view.setUint8(4, info.min_framesize >>> 16);
+  view.setUint16(5, info.min_framesize & 0xffff);
+  view.setUint8(7, info.max_framesize >>> 16);
+  view.setUint16(8, info.max_framesize & 0xffff);
+  // 20 bits sample rate, 3 bits channels - 1, 5 bits bits per sample - 1, 36 bits total samples
+  const packed = (BigInt(info.sampleRate) << 44n) |
+    (BigInt(info.channels - 1) << 41n) |
+    (BigInt(info.bitsPerSample - 1) << 36n) |
+    BigInt(info.total_samples);
+  view.setBigUint64(10, packed);
+  for (let i = 0; i < 16; i++) {
+    view.setUint8(18 + i, parseInt(info.md5sum.slice(i * 2, i * 2 + 2), 16) || 0);
+  }
+};
+
+export const encodeFlac = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  moduleUrl = FLAC_MODULE,
+  wasmUrl?: string
+): Promise<Uint8Array> => {
+  const Flac = await loadFlac(moduleUrl, wasmUrl);
+  const frames = channels[0].length;
+  const encoder = Flac.create_libflac_encoder(sampleRate, channels.length, 16, 5, frames, false, 0);
+  if (!encoder) throw new Error("Could not create the FLAC encoder.");
+
+  const chunks: Uint8Array[] = [];
+  let streamInfo: StreamMetadata | undefined;
+  try {
+    const status = Flac.init_encoder_stream(
+      encoder,
+      (data: Uint8Array, bytes: number) => {
+        chunks.push(data.slice(0, bytes));
+      },
+      (metadata?: StreamMetadata) => {
+        streamInfo = metadata;
+      }
+    );
+    if (status !== 0) throw new Error(`FLAC encoder failed to start (status ${status}).`);
+
+    const interleaved = new Int32Array(frames * channels.length);
+    for (let i = 0; i < frames; i++) {
+      channels.forEach((channel, c) => { interleaved[i * channels.length + c] = toInt16(channel[i]); });
+    }
+    if (!Flac.FLAC__stream_encoder_process_interleaved(encoder, interleaved, frames)) {
+      throw new Error("FLAC encoding failed.");
+    }
+    Flac.FLAC__stream_encoder_finish(encoder);
+  } finally {
+    Flac.FLAC__stream_encoder_delete(encoder);
+  }
+
+  const flac = concatPcm(chunks);
+  if (streamInfo) writeStreamInfo(flac, streamInfo);
+  return flac;
+};
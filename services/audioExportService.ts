@@ -0,0 +1,139 @@
+import { AudioExportFormat, AudioExportOptions } from "../types";
+import { SAMPLE_RATE, concatPcm } from "./audioUtils";
+import { decodePcm16 } from "./alignmentService";
+import { MP3_MODULE, FLAC_MODULE } from "./audioEncoders";
+import type { EncodeRequest, EncodeResponse, EncoderUrls } from "../workers/audioEncoderWorker";
+
+/**
+ * Browser-side audio export: encodes the generated track in workers, without a server.
+ */
+
+export const AUDIO_EXPORT_FORMATS: Record<AudioExportFormat, { label: string; extension: string; mimeType: string }> = {
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav' },
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg' },
+  opus: { label: 'Opus', extension: 'opus', mimeType: 'audio/ogg; codecs=opus' },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac' },
+};
+
+export const EXPORT_SAMPLE_RATES = [SAMPLE_RATE, 44100, 48000];
+
+// Ogg Opus always decodes at 48kHz, so the sample rate option does not apply to it
+export const OPUS_SAMPLE_RATE = 48000;
+
+// Opus settings tuned for speech
+const OPUS_APPLICATION_VOIP = 2048;
+const OPUS_BITRATE = { mono: 32000, stereo: 64000 } as const;
+
+// Encoder files are resolved through the import map when an export starts, so a missing
+// or unreachable encoder only fails that export
+const OPUS_WORKER = 'opus-recorder/dist/encoderWorker.min.js';
+const FLAC_WASM = 'libflacjs/dist/libflac.min.wasm.wasm';
+
+/**
+ * Starts a classic worker from a script that may live on another origin (a CDN): the
+ * worker itself comes from a same-origin blob that pulls the script in.
+ */
+const createScriptWorker = (scriptUrl: string): { worker: Worker; dispose: () => void } => {
+  const blobUrl = URL.createObjectURL(new Blob([`importScripts(${JSON.stringify(scriptUrl)});`], { type: 'text/javascript' }));
+  const worker = new Worker(blobUrl);
+  return {
+    worker,
+    dispose: () => {
+      worker.terminate();
+      URL.revokeObjectURL(blobUrl);
+    },
+  };
+};
+
+const encodeOpus = (pcm: Uint8Array, stereo: boolean, signal?: AbortSignal): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const { worker, dispose } = createScriptWorker(import.meta.resolve(OPUS_WORKER));
+    const pages: Uint8Array[] = [];
+    const mono = decodePcm16(pcm);
+    const buffers = stereo ? [mono, mono] : [mono];
+
+    const finish = (error?: unknown) => {
+      dispose();
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve(concatPcm(pages));
+    };
+    const onAbort = () => finish(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = ({ data }) => {
+      if (data.message === 'ready') {
+        worker.postMessage({ command: 'getHeaderPages' });
+        worker.postMessage({ command: 'encode', buffers });
+        worker.postMessage({ command: 'done' });
+      } else if (data.message === 'page') {
+        pages.push(data.page);
+      } else if (data.message === 'done') {
+        finish();
+      }
+    };
+    worker.onerror = (event) => finish(new Error(event.message || "Opus encoding failed."));
+
+    // The encoder resamples to 48kHz itself
+    worker.postMessage({
+      command: 'init',
+      encoderSampleRate: OPUS_SAMPLE_RATE,
+      originalSampleRate: SAMPLE_RATE,
+      numberOfChannels: buffers.length,
+      encoderApplication: OPUS_APPLICATION_VOIP,
+      encoderBitRate: stereo ? OPUS_BITRATE.stereo : OPUS_BITRATE.mono,
+      // Collect whole pages rather than streaming them
+      streamPages: false,
+    });
+  });
+
+// The worker cannot resolve import-map names itself, so every URL it loads is resolved here
+const resolveEncoderUrls = (format: AudioExportFormat): EncoderUrls => {
+  switch (format) {
+    case 'mp3':
+      return { mp3: import.meta.resolve(MP3_MODULE) };
+    case 'flac':
+      return { flac: import.meta.resolve(FLAC_MODULE), flacWasm: import.meta.resolve(FLAC_WASM) };
+    default:
+      return {};
+  }
+};
+
+const encodeInWorker = (pcm: Uint8Array, options: AudioExportOptions, signal?: AbortSignal): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/audioEncoderWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = (result: Uint8Array | null, error?: unknown) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+      if (result) resolve(result);
+      else reject(error);
+    };
+    const onAbort = () => finish(null, signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<EncodeResponse>) => {
+      const response = event.data;
+      if ('data' in response) finish(response.data);
+      else finish(null, new Error(response.error));
+    };
+    worker.onerror = (event) => finish(null, new Error(event.message || "Audio encoding failed."));
+
+    const copy = pcm.slice();
+    const request: EncodeRequest = { pcm: copy, options, encoderUrls: resolveEncoderUrls(options.format) };
+    worker.postMessage(request, [copy.buffer]);
+  });
+
+/**
+ * Encodes 24kHz mono PCM to the requested format and returns a downloadable Blob.
+ */
+export const exportAudio = async (
+  pcm: Uint8Array,
+  options: AudioExportOptions,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const data = options.format === 'opus'
+    ? await encodeOpus(pcm, options.stereo, signal)
+    : await encodeInWorker(pcm, options, signal);
+  return new Blob([data], { type: AUDIO_EXPORT_FORMATS[options.format].mimeType });
+};
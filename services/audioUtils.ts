@@ -0,0 +1,170 @@
+import { InvalidFileError } from "./errors";
+
+/**
+ * Helpers for the raw PCM returned by Gemini TTS (24kHz, 16-bit, Mono).
+ */
+
+export const SAMPLE_RATE = 24000;
+export const BYTES_PER_SAMPLE = 2;
+
+// Portable base64 codec: atob/btoa are browser globals, and Buffer only exists in Node
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64_ALPHABET].map((char, i) => [char.charCodeAt(0), i]));
+
+/**
+ * Decodes a base64 string into raw PCM bytes. Padding and whitespace are ignored.
+ */
+export const base64ToPcm = (base64: string): Uint8Array => {
+  const bytes = new Uint8Array(Math.floor((base64.length * 3) / 4));
+  let length = 0;
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < base64.length; i++) {
+    const value = BASE64_VALUES.get(base64.charCodeAt(i));
+    if (value === undefined) continue;
+    buffer = ((buffer << 6) | value) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.slice(0, length);
+};
+
+/**
+ * Encodes raw PCM bytes back into base64.
+ */
+export const pcmToBase64 = (pcm: Uint8Array): string => {
+  const alphabet = Uint8Array.from(BASE64_ALPHABET, char => char.charCodeAt(0));
+  const padding = '='.charCodeAt(0);
+  const encoded = new Uint8Array(Math.ceil(pcm.length / 3) * 4);
+  for (let i = 0, j = 0; i < pcm.length; i += 3, j += 4) {
+    const triple = (pcm[i] << 16) | ((pcm[i + 1] ?? 0) << 8) | (pcm[i + 2] ?? 0);
+    encoded[j] = alphabet[(triple >> 18) & 63];
+    encoded[j + 1] = alphabet[(triple >> 12) & 63];
+    encoded[j + 2] = i + 1 < pcm.length ? alphabet[(triple >> 6) & 63] : padding;
+    encoded[j + 3] = i + 2 < pcm.length ? alphabet[triple & 63] : padding;
+  }
+
+  // Build the string in chunks to avoid call stack limits on long audio
+  let result = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < encoded.length; i += chunkSize) {
+    result += String.fromCharCode(...encoded.subarray(i, i + chunkSize));
+  }
+  return result;
+};
+
+/**
+ * Duration in seconds of a PCM byte buffer.
+ */
+export const pcmDuration = (pcm: Uint8Array, sampleRate = SAMPLE_RATE): number => {
+  return pcm.length / BYTES_PER_SAMPLE / sampleRate;
+};
+
+/**
+ * Creates a buffer of digital silence lasting the given number of seconds.
+ */
+export const createSilence = (seconds: number, sampleRate = SAMPLE_RATE): Uint8Array => {
+  const samples = Math.max(0, Math.round(seconds * sampleRate));
+  return new Uint8Array(samples * BYTES_PER_SAMPLE);
+};
+
+/**
+ * Joins PCM chunks into one contiguous buffer.
+ */
+export const concatPcm = (chunks: Uint8Array[]): Uint8Array => {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * Wraps raw PCM bytes in a WAV (RIFF) container.
+ * Assumes 16-bit, Mono (standard for Gemini TTS) unless `channels` says the samples are interleaved.
+ */
+export const pcmToWav = (pcm: Uint8Array, sampleRate = SAMPLE_RATE, channels = 1): Uint8Array => {
+  const len = pcm.length;
+  const buffer = new ArrayBuffer(44 + len);
+  const view = new DataView(buffer);
+
+  // RIFF identifier
+  const writeString = (view: DataView, offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + len, true); // file length - 8
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // length of fmt chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * BYTES_PER_SAMPLE, true); // Byte rate (SampleRate * BlockAlign)
+  view.setUint16(32, channels * BYTES_PER_SAMPLE, true); // Block align (Channels * BytesPerSample)
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(view, 36, 'data');
+  view.setUint32(40, len, true);
+
+  // Write PCM samples
+  const wav = new Uint8Array(buffer);
+  wav.set(pcm, 44);
+  return wav;
+};
+
+// Blob wrappers for browser downloads; headless callers use the byte helpers above
+export const pcmToWavBlob = (pcm: Uint8Array, sampleRate = SAMPLE_RATE): Blob => {
+  return new Blob([pcmToWav(pcm, sampleRate)], { type: 'audio/wav' });
+};
+
+/**
+ * Converts raw PCM base64 string to a WAV Blob.
+ * Assumes 24kHz, 16-bit, Mono (standard for Gemini TTS).
+ */
+export const base64ToWavBlob = (base64: string, sampleRate = SAMPLE_RATE): Blob => {
+  return pcmToWavBlob(base64ToPcm(base64), sampleRate);
+};
+
+/**
+ * Extracts the PCM data chunk from a 16-bit mono WAV file.
+ */
+export const wavToPcm = (wav: Uint8Array): { pcm: Uint8Array; sampleRate: number } => {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...wav.subarray(offset, offset + length));
+
+  if (wav.length < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+    throw new InvalidFileError("Not a WAV file.");
+  }
+
+  let sampleRate = SAMPLE_RATE;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const channels = view.getUint16(body + 2, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (channels !== 1 || bitsPerSample !== 16) {
+        throw new InvalidFileError("Only 16-bit mono WAV audio is supported.");
+      }
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (id === 'data') {
+      return { pcm: wav.slice(body, Math.min(body + size, wav.length)), sampleRate };
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  throw new InvalidFileError("WAV file has no audio data.");
+};
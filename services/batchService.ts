@@ -0,0 +1,201 @@
+import { strToU8, zipSync } from "fflate";
+import { AIProvider, BatchItem, Language, ProcessOptions, SourceLanguage, SubtitleFormat, SubtitleTrack, VOICES } from "../types";
+import { processContent } from "./pipelineService";
+import { runWithConcurrency, DEFAULT_CONCURRENCY } from "./jobService";
+import { findLanguage, findVoice, resolveSourceLanguage, resolveTargets } from "./languageService";
+import { base64ToPcm, pcmDuration, pcmToWav } from "./audioUtils";
+import { formatSubtitles } from "./subtitleService";
+import { describeError, InvalidFileError } from "./errors";
+
+/**
+ * Batch generation: many short texts (text files or CSV rows) voiced one by one with
+ * bounded concurrency, then packed into a single zip.
+ */
+
+export interface BatchOptions extends ProcessOptions {
+  concurrency?: number;
+  onItemChange?: (index: number, item: BatchItem) => void;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Splits CSV text into rows of fields. Handles quoted fields with commas, doubled
+ * quotes and line breaks.
+ */
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new InvalidFileError("CSV has an unterminated quoted field.");
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(fields => fields.some(value => value.trim()));
+};
+
+const queued = (id: string, text: string, language?: Language, voiceId?: string): BatchItem => ({
+  id,
+  text,
+  ...(language && { language }),
+  ...(voiceId && { voiceId }),
+  status: 'queued',
+});
+
+/**
+ * Reads a CSV with a header row. `text` is required; `id`, `language` and `voice` are
+ * optional and empty cells fall back to the row number and the batch defaults.
+ */
+export const parseBatchCsv = (content: string): BatchItem[] => {
+  const [header, ...rows] = parseCsvRows(content);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  if (column('text') === -1) {
+    throw new InvalidFileError('CSV needs a header row with at least a "text" column (id,text,language,voice).');
+  }
+
+  const items: BatchItem[] = [];
+  rows.forEach((fields, index) => {
+    const line = index + 2;
+    const cell = (name: string) => (column(name) === -1 ? '' : fields[column(name)]?.trim() ?? '');
+    const text = cell('text');
+    if (!text) return;
+
+    const language = cell('language') ? findLanguage(cell('language')) : undefined;
+    if (cell('language') && !language) {
+      throw new InvalidFileError(`Line ${line}: unknown language "${cell('language')}".`);
+    }
+    const voiceId = cell('voice') ? findVoice(cell('voice'))?.id : undefined;
+    if (cell('voice') && !voiceId) {
+      throw new InvalidFileError(`Line ${line}: unknown voice "${cell('voice')}".`);
+    }
+    items.push(queued(cell('id') || String(line - 1), text, language, voiceId));
+  });
+
+  if (items.length === 0) {
+    throw new InvalidFileError("CSV has no rows with text.");
+  }
+  return items;
+};
+
+/**
+ * A plain text file becomes one item named after the file.
+ */
+export const textFileItem = (fileName: string, content: string): BatchItem =>
+  queued(fileName.replace(/\.[^.]+$/, '') || fileName, content.replace(/^\uFEFF/, '').trim());
+
+/**
+ * Voices the given items with at most `concurrency` in flight. Unlike chunk jobs, a
+ * failing item does not stop the batch: it is marked failed and can be retried.
+ * Items are updated in place and reported through `onItemChange`.
+ */
+export const runBatch = async (
+  items: BatchItem[],
+  indexes: number[],
+  provider: AIProvider,
+  sourceSelection: SourceLanguage,
+  targetLangs: Language[],
+  voiceId: string,
+  options: BatchOptions = {}
+): Promise<void> => {
+  const { concurrency = DEFAULT_CONCURRENCY, onItemChange, ...processOptions } = options;
+  const { signal } = processOptions;
+
+  const update = (index: number, changes: Partial<BatchItem>) => {
+    items[index] = { ...items[index], ...changes };
+    onItemChange?.(index, items[index]);
+  };
+
+  await runWithConcurrency(indexes, concurrency, async (index) => {
+    if (signal?.aborted) return;
+    const item = items[index];
+    const language = item.language ?? resolveSourceLanguage(item.text, sourceSelection);
+    const voice = VOICES.find(v => v.id === (item.voiceId ?? voiceId)) ?? VOICES[0];
+    update(index, { status: 'running', error: undefined, result: undefined });
+
+    try {
+      const result = await processContent(provider, item.text, language, resolveTargets(targetLangs, language), voice.name, processOptions);
+      update(index, {
+        status: 'done',
+        result: { segments: result.segments, pcm: base64ToPcm(result.audioBase64), language, voiceId: voice.id },
+      });
+    } catch (error) {
+      // Cancelled items go back to the queue rather than counting as failures
+      if (signal?.aborted) update(index, { status: 'queued' });
+      else update(index, { status: 'failed', error: describeError(error).message });
+    }
+  });
+};
+
+// File names safe on every platform, made unique within the zip
+const fileStems = (items: BatchItem[]): string[] => {
+  const used = new Set<string>();
+  return items.map((item, index) => {
+    const base = item.id.replace(/[^\p{L}\p{N}._-]+/gu, '_').replace(/^[._]+/, '').slice(0, 80) || `item-${index + 1}`;
+    let stem = base;
+    for (let n = 2; used.has(stem.toLowerCase()); n++) stem = `${base}-${n}`;
+    used.add(stem.toLowerCase());
+    return stem;
+  });
+};
+
+/**
+ * Zips a WAV and a subtitle file per finished item, plus `manifest.json` listing every
+ * item with its settings, output files or error.
+ */
+export const buildBatchZip = (items: BatchItem[], format: SubtitleFormat, track: SubtitleTrack = 'both'): Blob => {
+  const stems = fileStems(items);
+  const files: Record<string, Uint8Array> = {};
+
+  const manifest = items.map((item, index) => {
+    const { result } = item;
+    if (!result) {
+      return { id: item.id, status: item.status, text: item.text, ...(item.error && { error: item.error }) };
+    }
+    const audio = `${stems[index]}.wav`;
+    const subtitles = `${stems[index]}.${format}`;
+    files[audio] = pcmToWav(result.pcm);
+    files[subtitles] = strToU8(formatSubtitles(result.segments, format, track));
+    return {
+      id: item.id,
+      status: item.status,
+      text: item.text,
+      language: result.language,
+      voice: result.voiceId,
+      duration: Number(pcmDuration(result.pcm).toFixed(3)),
+      audio,
+      subtitles,
+    };
+  });
+
+  files[MANIFEST_FILE] = strToU8(JSON.stringify({ createdAt: new Date().toISOString(), items: manifest }, null, 2));
+  return new Blob([zipSync(files, { level: 6 })], { type: 'application/zip' });
+};
@@ -0,0 +1,195 @@
+import { AIProvider, Language, SubtitleSegment, Translations, GlossaryEntry } from "../types";
+import { openDb, promisify, transactionDone, isIndexedDbAvailable, STORES } from "./db";
+import { relevantEntries } from "./glossaryService";
+
+/**
+ * Content-addressed cache for provider responses, stored in IndexedDB with
+ * size limits and least-recently-used eviction. Keys hash the normalized text
+ * together with the language pair, voice and model id.
+ */
+
+export const CACHE_MAX_BYTES = 200 * 1024 * 1024;
+export const CACHE_MAX_ENTRIES = 5000;
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  size: number; // approximate bytes
+  lastAccess: number;
+}
+
+// Running size of the cache, stored in the cache itself under a key no hash can take.
+// It has no `lastAccess`, so the eviction index never lists it
+const TOTALS_KEY = 'totals';
+
+interface CacheTotals {
+  key: typeof TOTALS_KEY;
+  bytes: number;
+  count: number;
+}
+
+export interface CacheOptions {
+  // Skip reads but still store fresh responses
+  bypass?: boolean;
+  maxBytes?: number;
+  maxEntries?: number;
+}
+
+/**
+ * Normalizes text so whitespace and Unicode composition differences hit the same entry.
+ */
+export const normalizeText = (text: string): string =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+export const hashKey = async (parts: string[]): Promise<string> => {
+  const data = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const estimateSize = (value: unknown): number =>
+  typeof value === 'string' ? value.length : JSON.stringify(value).length * 2;
+
+export const getCached = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.CACHE, 'readwrite');
+  const store = tx.objectStore(STORES.CACHE);
+  const entry = await promisify<CacheEntry<T> | undefined>(store.get(key));
+  if (entry) {
+    store.put({ ...entry, lastAccess: Date.now() });
+  }
+  await transactionDone(tx);
+  return entry?.value;
+};
+
+/**
+ * Deletes least-recently-used entries until the cache fits both limits, and records the
+ * size of what is left.
+ */
+const evict = async (maxBytes: number, maxEntries: number) => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.CACHE, 'readwrite');
+  const store = tx.objectStore(STORES.CACHE);
+  const index = store.index('lastAccess');
+
+  // Walk newest-first, keeping entries while they fit and deleting the rest
+  let bytes = 0;
+  let count = 0;
+  const kept = { bytes: 0, count: 0 };
+  await new Promise<void>((resolve, reject) => {
+    const request = index.openCursor(null, 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        store.put({ key: TOTALS_KEY, ...kept } as CacheTotals);
+        return resolve();
+      }
+      const entry = cursor.value as CacheEntry;
+      bytes += entry.size;
+      count++;
+      if (bytes > maxBytes || count > maxEntries) {
+        cursor.delete();
+      } else {
+        kept.bytes += entry.size;
+        kept.count++;
+      }
+      cursor.continue();
+    };
+  });
+  await transactionDone(tx);
+};
+
+/**
+ * Stores a response and updates the running totals. The full eviction walk only runs
+ * when a write takes the cache over a limit, or once for a cache without totals.
+ */
+export const setCached = async <T>(
+  key: string,
+  value: T,
+  limits: { maxBytes?: number; maxEntries?: number } = {}
+): Promise<void> => {
+  const { maxBytes = CACHE_MAX_BYTES, maxEntries = CACHE_MAX_ENTRIES } = limits;
+  const size = estimateSize(value);
+  if (size > maxBytes) return;
+
+  const db = await openDb();
+  const tx = db.transaction(STORES.CACHE, 'readwrite');
+  const store = tx.objectStore(STORES.CACHE);
+  const [previous, totals] = await Promise.all([
+    promisify<CacheEntry | undefined>(store.get(key)),
+    promisify<CacheTotals | undefined>(store.get(TOTALS_KEY)),
+  ]);
+  store.put({ key, value, size, lastAccess: Date.now() } as CacheEntry<T>);
+  const updated: CacheTotals | undefined = totals && {
+    key: TOTALS_KEY,
+    bytes: totals.bytes + size - (previous?.size ?? 0),
+    count: totals.count + (previous ? 0 : 1),
+  };
+  if (updated) store.put(updated);
+  await transactionDone(tx);
+
+  if (!updated || updated.bytes > maxBytes || updated.count > maxEntries) {
+    await evict(maxBytes, maxEntries);
+  }
+};
+
+export const clearCache = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORES.CACHE, 'readwrite');
+  const store = tx.objectStore(STORES.CACHE);
+  store.clear();
+  store.put({ key: TOTALS_KEY, bytes: 0, count: 0 } as CacheTotals);
+  await transactionDone(tx);
+};
+
+/**
+ * Wraps a provider so identical requests are served from the cache.
+ * Cache failures never fail a request; they only cost a provider call.
+ */
+export const withCache = (provider: AIProvider, options: CacheOptions = {}): AIProvider => {
+  if (!isIndexedDbAvailable()) return provider;
+  const { bypass = false, ...limits } = options;
+
+  const cached = async <T>(parts: string[], load: () => Promise<T>): Promise<T> => {
+    let key: string | null = null;
+    try {
+      key = await hashKey([provider.id, ...parts]);
+      if (!bypass) {
+        const hit = await getCached<T>(key);
+        if (hit !== undefined) return hit;
+      }
+    } catch (error) {
+      console.warn("Cache read failed:", error);
+    }
+
+    const value = await load();
+    if (key) {
+      setCached(key, value, limits).catch(error => console.warn("Cache write failed:", error));
+    }
+    return value;
+  };
+
+  return {
+    ...provider,
+
+    // Only glossary terms that occur in the text change the response, so only they go into the key
+    translateAndSegment: (text: string, sourceLang: Language, targetLangs: Language[], signal?: AbortSignal, glossary: GlossaryEntry[] = []) =>
+      cached<SubtitleSegment[]>(
+        ['segment', provider.translationModel, sourceLang, targetLangs.join(','), JSON.stringify(relevantEntries(glossary, [text], targetLangs)), normalizeText(text)],
+        () => provider.translateAndSegment(text, sourceLang, targetLangs, signal, glossary)
+      ),
+
+    translateLines: (lines: string[], sourceLang: Language, targetLangs: Language[], signal?: AbortSignal, glossary: GlossaryEntry[] = []) =>
+      cached<Translations[]>(
+        ['lines', provider.translationModel, sourceLang, targetLangs.join(','), JSON.stringify(relevantEntries(glossary, lines, targetLangs)), ...lines.map(normalizeText)],
+        () => provider.translateLines(lines, sourceLang, targetLangs, signal, glossary)
+      ),
+
+    generateSpeech: (text: string, voiceName: string, signal?: AbortSignal) =>
+      cached<string>(
+        ['speech', provider.ttsModel, voiceName, normalizeText(text)],
+        () => provider.generateSpeech(text, voiceName, signal)
+      )
+  };
+};
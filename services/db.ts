@@ -0,0 +1,56 @@
+/**
+ * Shared IndexedDB connection and promise helpers for the project store and response cache.
+ */
+
+const DB_NAME = 'linguavoice';
+const DB_VERSION = 2;
+
+export const STORES = {
+  PROJECTS: 'projects',
+  AUDIO: 'audio',
+  CACHE: 'cache',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.PROJECTS)) {
+          db.createObjectStore(STORES.PROJECTS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.AUDIO)) {
+          db.createObjectStore(STORES.AUDIO);
+        }
+        // Added in version 2
+        if (!db.objectStoreNames.contains(STORES.CACHE)) {
+          const cache = db.createObjectStore(STORES.CACHE, { keyPath: 'key' });
+          cache.createIndex('lastAccess', 'lastAccess');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseDialogue } from './dialogueService';
+
+describe('parseDialogue', () => {
+  it('reads one turn per tagged line and continues untagged lines', () => {
+    expect(parseDialogue('Anna: Hi there.\nBen: Hello!\nHow are you?')).toEqual([
+      { speaker: 'Anna', text: 'Hi there.' },
+      { speaker: 'Ben', text: 'Hello! How are you?' },
+    ]);
+  });
+
+  it('splits inline turns separated by a slash', () => {
+    expect(parseDialogue('A: Hi! / B: Hello.')).toEqual([
+      { speaker: 'A', text: 'Hi!' },
+      { speaker: 'B', text: 'Hello.' },
+    ]);
+  });
+
+  it('does not take a URL for a speaker tag', () => {
+    expect(parseDialogue('Anna: The link is\nhttps://example.com/page\nBen: Thanks.')).toEqual([
+      { speaker: 'Anna', text: 'The link is https://example.com/page' },
+      { speaker: 'Ben', text: 'Thanks.' },
+    ]);
+  });
+
+  it('does not take labels or phrases with spaces for speakers', () => {
+    expect(parseDialogue('Anna: Ready?\nNote: this is a test.\nStep 1: open the box.')).toEqual([
+      { speaker: 'Anna', text: 'Ready? Note: this is a test. Step 1: open the box.' },
+    ]);
+  });
+
+  it('only accepts declared speakers when they are given', () => {
+    const script = 'Customer 2: Is it open?\nClerk: Yes.\nAlso: we close at six.';
+    expect(parseDialogue(script, ['Customer 2', 'clerk'])).toEqual([
+      { speaker: 'Customer 2', text: 'Is it open?' },
+      { speaker: 'clerk', text: 'Yes. Also: we close at six.' },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { VoiceOption } from "../types";
+import { escapeRegExp } from "./textUtils";
+
+/**
+ * Parsing for dialogue scripts written as `Speaker: line`, one turn per line.
+ */
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// A name at the start of a line, without spaces, before a colon: "A:", "Anna:" or
+// "Customer_2:". A colon followed by "//" belongs to a URL, not a tag
+const NAME = String.raw`[\p{L}\p{N}][\p{L}\p{N}._'-]{0,23}`;
+const TAG_END = String.raw`\s*[:：](?!\/\/)`;
+
+// Words that label a line rather than name a speaker, as in "Note: ..."
+const LABELS = new Set(['note', 'notes', 'warning', 'caution', 'tip', 'hint', 'important', 'example', 'step', 'todo', 'ps', 'source']);
+
+/**
+ * Splits a script into speaker turns. Lines without a tag continue the previous turn;
+ * turns may also be separated inline with " / " (e.g. "A: Hi! / B: Hello."). With
+ * `speakers`, only those names (which may contain spaces) count as tags, spelled as declared.
+ */
+export const parseDialogue = (text: string, speakers?: string[]): DialogueLine[] => {
+  const declared = speakers?.map(name => name.trim()).filter(Boolean) ?? [];
+  const name = declared.length > 0 ? `(?:${declared.map(escapeRegExp).join('|')})` : NAME;
+  const tag = new RegExp(String.raw`^\s*(${name})${TAG_END}\s*(.*)$`, 'iu');
+  const rows = text.split(new RegExp(String.raw`\n|\s+\/\s+(?=${name}${TAG_END})`, 'iu'));
+  const speakerFor = (tagged: string): string | undefined => {
+    if (declared.length > 0) return declared.find(d => d.toLocaleLowerCase() === tagged.toLocaleLowerCase());
+    return LABELS.has(tagged.toLocaleLowerCase()) ? undefined : tagged;
+  };
+
+  const lines: DialogueLine[] = [];
+  for (const row of rows) {
+    if (!row.trim()) continue;
+    const match = row.match(tag);
+    const speaker = match ? speakerFor(match[1]) : undefined;
+    if (match && speaker) {
+      lines.push({ speaker, text: match[2].trim() });
+    } else if (lines.length > 0) {
+      const last = lines[lines.length - 1];
+      last.text = `${last.text} ${row.trim()}`.trim();
+    }
+  }
+
+  return lines.filter(line => line.text);
+};
+
+/**
+ * Speakers in order of first appearance.
+ */
+export const listSpeakers = (lines: DialogueLine[]): string[] =>
+  Array.from(new Set(lines.map(line => line.speaker)));
+
+/**
+ * Fills in a voice for every speaker without one, cycling through the available
+ * voices so neighbouring speakers sound different. Existing assignments are kept.
+ */
+export const assignVoices = (
+  speakers: string[],
+  assigned: Record<string, string>,
+  voices: VoiceOption[]
+): Record<string, string> => {
+  const result: Record<string, string> = {};
+  speakers.forEach((speaker, index) => {
+    const current = assigned[speaker];
+    result[speaker] = voices.some(v => v.id === current) ? current : voices[index % voices.length].id;
+  });
+  return result;
+};
@@ -0,0 +1,16 @@
+/**
+ * Saves a blob through a temporary link. The object URL is revoked only after a delay:
+ * some browsers start reading it after `click()` returns, and revoking it straight away
+ * can cancel the download.
+ */
+
+const REVOKE_DELAY_MS = 1000;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,185 @@
+/**
+ * Typed failures surfaced by providers and the pipeline. `retryable` marks transient
+ * errors that `withRetry` may attempt again.
+ */
+
+export type ErrorKind = 'auth' | 'rate-limit' | 'safety-blocked' | 'malformed-response' | 'empty-audio' | 'transient' | 'invalid-file' | 'invalid-input' | 'unknown';
+
+export class LinguaVoiceError extends Error {
+  readonly kind: ErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: ErrorKind, message: string, retryable = false, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'LinguaVoiceError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class AuthError extends LinguaVoiceError {
+  constructor(message = "The API key is missing or invalid.", options?: { cause?: unknown }) {
+    super('auth', message, false, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends LinguaVoiceError {
+  // Server-suggested wait in milliseconds, when provided
+  readonly retryAfter?: number;
+
+  constructor(message = "The API quota or rate limit was exceeded.", retryAfter?: number, options?: { cause?: unknown }) {
+    super('rate-limit', message, true, options);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class SafetyBlockedError extends LinguaVoiceError {
+  constructor(message = "The request was blocked by safety filters.", options?: { cause?: unknown }) {
+    super('safety-blocked', message, false, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class MalformedResponseError extends LinguaVoiceError {
+  constructor(message = "The model returned a response that could not be read.", options?: { cause?: unknown }) {
+    super('malformed-response', message, true, options);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class EmptyAudioError extends LinguaVoiceError {
+  constructor(message = "Failed to generate audio.", options?: { cause?: unknown }) {
+    super('empty-audio', message, true, options);
+    this.name = 'EmptyAudioError';
+  }
+}
+
+export class TransientError extends LinguaVoiceError {
+  constructor(message = "The service is temporarily unavailable.", options?: { cause?: unknown }) {
+    super('transient', message, true, options);
+    this.name = 'TransientError';
+  }
+}
+
+// A user-supplied file (subtitles, bundle, audio) could not be read
+export class InvalidFileError extends LinguaVoiceError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('invalid-file', message, false, options);
+    this.name = 'InvalidFileError';
+  }
+}
+
+// An argument passed to the library (text, voice) is not usable
+export class InvalidInputError extends LinguaVoiceError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('invalid-input', message, false, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Reads the server's suggested wait (ms) from an API error body. The SDK keeps no response
+ * headers, but Google APIs put a `google.rpc.RetryInfo` detail such as
+ * `{"retryDelay": "17s"}` in the JSON body it uses as the message.
+ */
+const retryAfterFromMessage = (message: string): number | undefined => {
+  let body: unknown;
+  try {
+    body = JSON.parse(message);
+  } catch {
+    return undefined;
+  }
+  const details = (body as { error?: { details?: unknown } } | null)?.error?.details;
+  if (!Array.isArray(details)) return undefined;
+  for (const detail of details) {
+    const { '@type': type, retryDelay } = (detail ?? {}) as { '@type'?: unknown; retryDelay?: unknown };
+    if (typeof type !== 'string' || !type.endsWith('RetryInfo') || typeof retryDelay !== 'string') continue;
+    const seconds = Number(retryDelay.match(/^(\d+(?:\.\d+)?)s$/)?.[1]);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+  }
+  return undefined;
+};
+
+/**
+ * Maps an HTTP status (as carried by SDK errors) to a typed error.
+ */
+export const errorFromStatus = (status: number, message: string, cause?: unknown): LinguaVoiceError => {
+  if (status === 401 || status === 403) return new AuthError(message, { cause });
+  if (status === 429) return new RateLimitError(message, retryAfterFromMessage(message), { cause });
+  if (status === 408 || status >= 500) return new TransientError(message, { cause });
+  // The API reports an invalid key as 400 INVALID_ARGUMENT
+  if (status === 400 && /api key/i.test(message)) return new AuthError(message, { cause });
+  return new LinguaVoiceError('unknown', message, false, { cause });
+};
+
+/**
+ * Normalizes anything thrown into a LinguaVoiceError. Abort errors pass through untouched
+ * so cancellation is never mistaken for a failure.
+ */
+export const toLinguaVoiceError = (error: unknown): unknown => {
+  if (error instanceof LinguaVoiceError || isAbortError(error)) return error;
+  if (error instanceof Error) {
+    const status = (error as { status?: unknown }).status;
+    if (typeof status === 'number') return errorFromStatus(status, error.message, error);
+    // fetch() rejects with a TypeError when the network is unreachable
+    if (error instanceof TypeError) return new TransientError(error.message, { cause: error });
+    return new LinguaVoiceError('unknown', error.message, false, { cause: error });
+  }
+  return new LinguaVoiceError('unknown', String(error));
+};
+
+export interface ErrorDescription {
+  title: string;
+  action: string;
+}
+
+const DESCRIPTIONS: Record<ErrorKind, ErrorDescription> = {
+  'auth': {
+    title: "API key problem",
+    action: "Set GEMINI_API_KEY in .env.local and restart the dev server, or switch to the Offline Mock provider."
+  },
+  'rate-limit': {
+    title: "Quota or rate limit reached",
+    action: "Wait a minute and try again, or check the quota of your Gemini project."
+  },
+  'safety-blocked': {
+    title: "Blocked by safety filters",
+    action: "Rephrase the flagged passage and generate again."
+  },
+  'malformed-response': {
+    title: "Unexpected response from the model",
+    action: "Try again. If it keeps happening, shorten the input."
+  },
+  'empty-audio': {
+    title: "No audio was returned",
+    action: "Try again or pick a different voice."
+  },
+  'transient': {
+    title: "Service temporarily unavailable",
+    action: "Check your connection and try again."
+  },
+  'invalid-file': {
+    title: "Could not read the file",
+    action: "Check that the file is in a supported format and try again."
+  },
+  'invalid-input': {
+    title: "Invalid input",
+    action: "Check the text and options and try again."
+  },
+  'unknown': {
+    title: "Something went wrong",
+    action: "Try again. Details are in the browser console."
+  },
+};
+
+export const describeError = (error: unknown): ErrorDescription & { message: string; kind: ErrorKind } => {
+  const normalized = toLinguaVoiceError(error);
+  const kind = normalized instanceof LinguaVoiceError ? normalized.kind : 'unknown';
+  const message = normalized instanceof Error ? normalized.message : String(normalized);
+  return { ...DESCRIPTIONS[kind], message, kind };
+};
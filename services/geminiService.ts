@@ -1,175 +1,258 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { Language, SubtitleSegment, GenerationResult } from "../types";
-
-// Helper to create the Gemini client safely
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please set the API_KEY environment variable.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+import { GoogleGenAI, Modality, Type, FinishReason, GenerateContentResponse } from "@google/genai";
+import { Language, SubtitleSegment, Translations, AIProvider, GlossaryEntry } from "../types";
+import { getLanguageInfo } from "./languageService";
+import { describeGlossary } from "./glossaryService";
+import { withEmphasisInstruction } from "./markupService";
+import { AuthError, SafetyBlockedError, MalformedResponseError, EmptyAudioError } from "./errors";
+import { withRetry } from "./retry";
+
+export interface GeminiConfig {
+  apiKey?: string;
+  translationModel?: string;
+  ttsModel?: string;
+}
+
+export const DEFAULT_TRANSLATION_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
 
 /**
- * Translates text and segments it into sentences using Gemini.
+ * Throws SafetyBlockedError when the prompt or the first candidate was blocked.
  */
-export const translateAndSegment = async (
-  text: string,
-  sourceLang: Language
-): Promise<SubtitleSegment[]> => {
-  const ai = getClient();
-  const targetLang = sourceLang === Language.ENGLISH ? Language.VIETNAMESE : Language.ENGLISH;
-  
-  const prompt = `
-    You are a professional translator and subtitle aligner.
-    Task:
-    1. Split the following ${sourceLang} text into logical sentences or phrases suitable for subtitles.
-    2. Translate each sentence into ${targetLang}.
-    3. Return a JSON array of objects, where each object has "original" and "translated" fields.
-
-    Input Text: "${text}"
-  `;
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            original: { type: Type.STRING },
-            translated: { type: Type.STRING }
-          },
-          required: ["original", "translated"]
-        }
-      }
-    }
-  });
-
-  const rawSegments = JSON.parse(response.text || "[]");
-  
-  // Initialize with placeholder timestamps. We will refine these based on audio duration later.
-  return rawSegments.map((seg: any, index: number) => ({
-    id: index,
-    original: seg.original,
-    translated: seg.translated,
-    startTime: 0,
-    endTime: 0
-  }));
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(response.promptFeedback?.blockReasonMessage ?? `The input was blocked (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`The response was blocked (${finishReason}).`);
+  }
 };
 
 /**
- * Generates speech from text using Gemini TTS.
+ * Parses a JSON array response, rejecting anything else as malformed.
  */
-export const generateSpeech = async (
-  text: string,
-  voiceName: string
-): Promise<string> => {
-  const ai = getClient();
-  
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: voiceName },
-        },
-      },
-    },
-  });
-
-  const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  
-  if (!audioData) {
-    throw new Error("Failed to generate audio.");
+const parseJsonArray = (text: string | undefined): unknown[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text ?? '');
+  } catch (error) {
+    throw new MalformedResponseError("The model returned invalid JSON.", { cause: error });
   }
-
-  return audioData;
+  if (!Array.isArray(parsed)) {
+    throw new MalformedResponseError("The model did not return a JSON array.");
+  }
+  return parsed;
 };
 
-/**
- * Orchestrates the full process: Translation -> TTS -> Timestamp Alignment
- */
-export const processContent = async (
-  text: string,
-  language: Language,
-  voiceName: string
-): Promise<GenerationResult> => {
-  // 1. Translate and Segment
-  const segments = await translateAndSegment(text, language);
-  
-  // 2. Generate Audio for the full text
-  // We reconstruct the full text from segments to ensure consistency
-  const fullTextToSpeak = segments.map(s => s.original).join(' ');
-  const audioBase64 = await generateSpeech(fullTextToSpeak, voiceName);
+type JsonObject = Record<string, unknown>;
 
-  return {
-    audioBase64,
-    segments
-  };
-};
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
 
-/**
- * Helper to estimate timestamps based on character count relative to total duration.
- * Since we don't get word-level timestamps from the API yet, this provides a visual approximation.
- */
-export const alignSegments = (segments: SubtitleSegment[], duration: number): SubtitleSegment[] => {
-  const totalChars = segments.reduce((sum, seg) => sum + seg.original.length, 0);
-  let currentTime = 0;
-
-  return segments.map(seg => {
-    const segmentDuration = (seg.original.length / totalChars) * duration;
-    const aligned = {
-      ...seg,
-      startTime: currentTime,
-      endTime: currentTime + segmentDuration
-    };
-    currentTime += segmentDuration;
-    return aligned;
-  });
-};
+const hasOriginal = (value: unknown): value is JsonObject & { original: string } =>
+  isJsonObject(value) && typeof value.original === 'string';
 
 /**
- * Converts raw PCM base64 string to a WAV Blob.
- * Assumes 24kHz, 16-bit, Mono (standard for Gemini TTS).
+ * Creates a provider backed by Gemini for translation and TTS.
+ * The API key falls back to `GEMINI_API_KEY`, then `API_KEY`, from the environment and is only
+ * checked when a request is made.
  */
-export const base64ToWavBlob = (base64: string, sampleRate = 24000): Blob => {
-  const binaryString = window.atob(base64);
-  const len = binaryString.length;
-  const buffer = new ArrayBuffer(44 + len);
-  const view = new DataView(buffer);
-
-  // RIFF identifier
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
+export const createGeminiProvider = (config: GeminiConfig = {}): AIProvider => {
+  const translationModel = config.translationModel ?? DEFAULT_TRANSLATION_MODEL;
+  const ttsModel = config.ttsModel ?? DEFAULT_TTS_MODEL;
+
+  // Helper to create the Gemini client safely
+  const getClient = () => {
+    const apiKey = config.apiKey ?? process.env.GEMINI_API_KEY ?? process.env.API_KEY;
+    if (!apiKey) {
+      throw new AuthError("API Key is missing. Please set the GEMINI_API_KEY (or API_KEY) environment variable.");
     }
+    return new GoogleGenAI({ apiKey });
   };
 
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + len, true); // file length - 8
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true); // length of fmt chunk
-  view.setUint16(20, 1, true); // PCM
-  view.setUint16(22, 1, true); // Mono
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * 2, true); // Byte rate (SampleRate * BlockAlign)
-  view.setUint16(32, 2, true); // Block align (Channels * BytesPerSample)
-  view.setUint16(34, 16, true); // Bits per sample
-  writeString(view, 36, 'data');
-  view.setUint32(40, len, true);
-
-  // Write PCM samples
-  const pcmData = new Uint8Array(buffer, 44);
-  for (let i = 0; i < len; i++) {
-    pcmData[i] = binaryString.charCodeAt(i);
-  }
+  // One JSON property per target, keyed by language code (e.g. "vi", "ja")
+  const translationProperties = (targetLangs: Language[]) =>
+    Object.fromEntries(targetLangs.map(lang => [getLanguageInfo(lang).code, { type: Type.STRING }]));
+
+  const describeTargets = (targetLangs: Language[]) =>
+    targetLangs.map(lang => `"${getLanguageInfo(lang).code}" (${lang})`).join(', ');
+
+  // Missing or non-string fields become empty translations
+  const readTranslations = (raw: unknown, targetLangs: Language[]): Translations =>
+    Object.fromEntries(targetLangs.map(lang => {
+      const value = isJsonObject(raw) ? raw[getLanguageInfo(lang).code] : undefined;
+      return [lang, typeof value === 'string' ? value : ''];
+    }));
+
+  /**
+   * Translates text and segments it into sentences using Gemini.
+   */
+  const translateAndSegment = async (
+    text: string,
+    sourceLang: Language,
+    targetLangs: Language[],
+    signal?: AbortSignal,
+    glossary: GlossaryEntry[] = []
+  ): Promise<SubtitleSegment[]> => {
+    const ai = getClient();
+    const codes = targetLangs.map(lang => getLanguageInfo(lang).code);
+
+    const prompt = `
+      You are a professional translator and subtitle aligner.
+      Task:
+      1. Split the following ${sourceLang} text into logical sentences or phrases suitable for subtitles.
+      2. Translate each sentence into every one of these languages: ${describeTargets(targetLangs)}.
+      3. Return a JSON array of objects, where each object has an "original" field plus one field per language code holding that translation.
+      ${describeGlossary(glossary, [text], targetLangs)}
+
+      Input Text: "${text}"
+    `;
+
+    const rawSegments = await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: translationModel,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                original: { type: Type.STRING },
+                ...translationProperties(targetLangs)
+              },
+              required: ["original", ...codes]
+            }
+          }
+        }
+      });
+      assertNotBlocked(response);
+
+      const parsed = parseJsonArray(response.text);
+      if (!parsed.every(hasOriginal)) {
+        throw new MalformedResponseError("A segment in the model response has no original text.");
+      }
+      return parsed;
+    }, { signal });
+
+    // Initialize with placeholder timestamps. We will refine these based on audio duration later.
+    return rawSegments.map((seg, index) => ({
+      id: index,
+      original: seg.original,
+      translations: readTranslations(seg, targetLangs),
+      startTime: 0,
+      endTime: 0
+    }));
+  };
+
+  /**
+   * Translates pre-segmented lines (e.g. subtitle cues) one-to-one, preserving order.
+   */
+  const translateLines = async (
+    lines: string[],
+    sourceLang: Language,
+    targetLangs: Language[],
+    signal?: AbortSignal,
+    glossary: GlossaryEntry[] = []
+  ): Promise<Translations[]> => {
+    const ai = getClient();
+    const codes = targetLangs.map(lang => getLanguageInfo(lang).code);
+
+    const prompt = `
+      You are a professional subtitle translator.
+      Task:
+      1. Translate each ${sourceLang} subtitle line in the JSON array below into every one of these languages: ${describeTargets(targetLangs)}.
+      2. Keep each translation short enough to fit the same subtitle cue.
+      3. Return a JSON array with exactly ${lines.length} objects, in the same order, each with one field per language code. Do not merge or split lines.
+      ${describeGlossary(glossary, lines, targetLangs)}
+
+      Input Lines: ${JSON.stringify(lines)}
+    `;
+
+    const rawLines = await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: translationModel,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: translationProperties(targetLangs),
+              required: codes
+            }
+          }
+        }
+      });
+      assertNotBlocked(response);
+
+      const parsed = parseJsonArray(response.text);
+      if (parsed.length !== lines.length) {
+        throw new MalformedResponseError(`Expected ${lines.length} translated lines but received ${parsed.length}.`);
+      }
+      return parsed;
+    }, { signal });
+
+    return rawLines.map(raw => readTranslations(raw, targetLangs));
+  };
+
+  /**
+   * Generates speech from text using Gemini TTS.
+   */
+  const generateSpeech = async (
+    text: string,
+    voiceName: string,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const ai = getClient();
+
+    return withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: ttsModel,
+        contents: [{ parts: [{ text: withEmphasisInstruction(text) }] }],
+        config: {
+          abortSignal: signal,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voiceName },
+            },
+          },
+        },
+      });
+      assertNotBlocked(response);
+
+      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+
+      if (!audioData) {
+        throw new EmptyAudioError();
+      }
+
+      return audioData;
+    }, { signal });
+  };
+
+  return {
+    id: 'gemini',
+    name: 'Gemini 2.5',
+    translationModel,
+    ttsModel,
+    translateAndSegment,
+    translateLines,
+    generateSpeech
+  };
+};
 
-  return new Blob([buffer], { type: 'audio/wav' });
-};
\ No newline at end of file
+export const geminiProvider = createGeminiProvider();
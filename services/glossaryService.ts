@@ -0,0 +1,88 @@
+import { GlossaryEntry, GlossaryIssue, Language, SubtitleSegment } from "../types";
+import { getLanguageInfo, isUnspacedScript } from "./languageService";
+import { escapeRegExp } from "./textUtils";
+
+/**
+ * Project terminology: what translation must do with each term, and a check that it did.
+ */
+
+/**
+ * Case-insensitive whole-word match, or substring match for scripts without word spacing.
+ */
+export const containsTerm = (text: string, term: string): boolean => {
+  const needle = term.trim().normalize('NFC');
+  if (!needle) return false;
+  const haystack = text.normalize('NFC');
+  if (isUnspacedScript(needle)) {
+    return haystack.toLocaleLowerCase().includes(needle.toLocaleLowerCase());
+  }
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(needle)}(?![\\p{L}\\p{N}])`, 'iu').test(haystack);
+};
+
+/**
+ * The text a term must appear as in a language, or null when the glossary says nothing.
+ */
+export const requiredTerm = (entry: GlossaryEntry, language: Language): string | null => {
+  if (entry.keep) return entry.term.trim() || null;
+  return entry.translations[language]?.trim() || null;
+};
+
+/**
+ * Entries that occur in the text and constrain at least one target.
+ */
+export const relevantEntries = (glossary: GlossaryEntry[], texts: string[], targetLangs: Language[]): GlossaryEntry[] =>
+  glossary.filter(entry =>
+    targetLangs.some(lang => requiredTerm(entry, lang) !== null) &&
+    texts.some(text => containsTerm(text, entry.term))
+  );
+
+/**
+ * Prompt lines telling the model how to render the glossary terms found in the input.
+ * Empty when no term applies, so prompts stay unchanged without a glossary.
+ */
+export const describeGlossary = (glossary: GlossaryEntry[], texts: string[], targetLangs: Language[]): string => {
+  const entries = relevantEntries(glossary, texts, targetLangs);
+  if (entries.length === 0) return '';
+
+  const lines = entries.map(entry => {
+    if (entry.keep) return `- "${entry.term.trim()}": do not translate; keep it exactly as written in every language.`;
+    const renderings = targetLangs
+      .map(lang => [lang, requiredTerm(entry, lang)] as const)
+      .filter(([, required]) => required !== null)
+      .map(([lang, required]) => `${getLanguageInfo(lang).code} → "${required}"`);
+    return `- "${entry.term.trim()}": ${renderings.join(', ')}`;
+  });
+  return `Terminology (mandatory; use exactly these renderings whenever the term appears):\n${lines.join('\n')}`;
+};
+
+/**
+ * Finds every segment whose original contains a glossary term that one of its
+ * translations does not render as required.
+ */
+export const checkGlossary = (segments: SubtitleSegment[], glossary: GlossaryEntry[]): GlossaryIssue[] => {
+  const issues: GlossaryIssue[] = [];
+  segments.forEach((seg, segmentIndex) => {
+    for (const entry of glossary) {
+      if (!containsTerm(seg.original, entry.term)) continue;
+      for (const [language, translation] of Object.entries(seg.translations) as [Language, string][]) {
+        const expected = requiredTerm(entry, language);
+        if (expected && translation && !containsTerm(translation, expected)) {
+          issues.push({ segmentIndex, term: entry.term.trim(), language, expected });
+        }
+      }
+    }
+  });
+  return issues;
+};
+
+/**
+ * Replaces glossary terms in `text` with their required rendering; used by the offline
+ * mock, whose "translations" still contain the source wording.
+ */
+export const applyGlossary = (text: string, glossary: GlossaryEntry[], language: Language): string =>
+  glossary.reduce((result, entry) => {
+    const required = requiredTerm(entry, language);
+    if (!required || !entry.term.trim()) return result;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entry.term.trim())}(?![\\p{L}\\p{N}])`, 'giu');
+    return result.replace(pattern, () => required);
+  }, text);
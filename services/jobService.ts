@@ -0,0 +1,146 @@
+import { Language, AIProvider, ChunkJob, ChunkResult, JobProgress, GenerationResult, ProcessOptions, SubtitleSegment } from "../types";
+import { base64ToPcm, pcmToBase64, pcmDuration, createSilence, concatPcm } from "./audioUtils";
+import { synthesizeSegments, translateMarkedText } from "./pipelineService";
+import { splitSentences } from "./languageService";
+
+/**
+ * Chunked generation for long documents: input is split at paragraph/sentence
+ * boundaries and chunks are translated and synthesized with bounded concurrency.
+ */
+
+export const DEFAULT_CHUNK_CHARS = 1500;
+export const DEFAULT_CONCURRENCY = 2;
+// Pause between consecutive chunks in the assembled track
+const CHUNK_GAP = 0.5;
+
+export interface ChunkJobOptions extends ProcessOptions {
+  concurrency?: number;
+  onProgress?: (progress: JobProgress) => void;
+}
+
+/**
+ * Packs paragraphs into chunks of at most `maxChars`. Paragraphs that are too long on
+ * their own are split at sentence boundaries; a single oversized sentence stays whole.
+ */
+export const splitIntoChunks = (text: string, maxChars = DEFAULT_CHUNK_CHARS): string[] => {
+  const pieces: { text: string; paragraphStart: boolean }[] = [];
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    const parts = paragraph.length > maxChars ? splitSentences(paragraph) : [paragraph];
+    parts.forEach((part, i) => pieces.push({ text: part, paragraphStart: i === 0 }));
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const separator = piece.paragraphStart ? '\n\n' : ' ';
+    if (current && current.length + separator.length + piece.text.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${piece.text}` : piece.text;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+export const createChunkJob = (text: string, maxChars = DEFAULT_CHUNK_CHARS): ChunkJob => {
+  const chunks = splitIntoChunks(text, maxChars);
+  return { chunks, results: chunks.map(() => null) };
+};
+
+export const completedChunks = (job: ChunkJob): number =>
+  job.results.filter(Boolean).length;
+
+/**
+ * Runs `worker` over indexes with at most `limit` in flight. Stops starting new work
+ * after the first failure and rethrows it once running workers settle.
+ */
+export const runWithConcurrency = async (
+  indexes: number[],
+  limit: number,
+  worker: (index: number) => Promise<void>
+): Promise<void> => {
+  const queue = [...indexes];
+  let failure: unknown = null;
+
+  const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    while (queue.length > 0 && failure === null) {
+      const index = queue.shift()!;
+      try {
+        await worker(index);
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+  });
+
+  await Promise.all(runners);
+  if (failure !== null) throw failure;
+};
+
+/**
+ * Concatenates chunk audio and offsets each chunk's segment timings accordingly.
+ */
+const assembleChunks = (results: ChunkResult[]): GenerationResult => {
+  const gap = createSilence(CHUNK_GAP);
+  const audio: Uint8Array[] = [];
+  const segments: SubtitleSegment[] = [];
+  let offset = 0;
+
+  results.forEach((result, i) => {
+    if (i > 0) {
+      audio.push(gap);
+      offset += CHUNK_GAP;
+    }
+    for (const seg of result.segments) {
+      segments.push({
+        ...seg,
+        id: segments.length,
+        startTime: seg.startTime + offset,
+        endTime: seg.endTime + offset
+      });
+    }
+    audio.push(result.pcm);
+    offset += pcmDuration(result.pcm);
+  });
+
+  return { audioBase64: pcmToBase64(concatPcm(audio)), segments };
+};
+
+/**
+ * Processes the unfinished chunks of a job and assembles the full result.
+ * Finished chunks are written to `job.results` as they complete, so calling this
+ * again with the same job after a failure or cancellation resumes where it stopped.
+ */
+export const runChunkJob = async (
+  job: ChunkJob,
+  provider: AIProvider,
+  sourceLang: Language,
+  targetLangs: Language[],
+  voiceName: string,
+  options: ChunkJobOptions = {}
+): Promise<GenerationResult> => {
+  const { concurrency = DEFAULT_CONCURRENCY, onProgress, ...processOptions } = options;
+  const { signal } = processOptions;
+
+  const done = completedChunks(job);
+  const progress: JobProgress = { total: job.chunks.length, translated: done, synthesized: done };
+  onProgress?.({ ...progress });
+
+  const pending = job.chunks.map((_, i) => i).filter(i => !job.results[i]);
+
+  await runWithConcurrency(pending, concurrency, async (index) => {
+    signal?.throwIfAborted();
+    const segments = await translateMarkedText(provider, job.chunks[index], sourceLang, targetLangs, signal, processOptions.glossary);
+    progress.translated++;
+    onProgress?.({ ...progress });
+
+    signal?.throwIfAborted();
+    const result = await synthesizeSegments(provider, segments, voiceName, processOptions);
+    job.results[index] = { segments: result.segments, pcm: base64ToPcm(result.audioBase64) };
+    progress.synthesized++;
+    onProgress?.({ ...progress });
+  });
+
+  return assembleChunks(job.results as ChunkResult[]);
+};
@@ -0,0 +1,98 @@
+import { Language, LanguageInfo, LANGUAGES, VOICES, VoiceOption, SourceLanguage, AUTO_DETECT } from "../types";
+
+export const getLanguageInfo = (language: Language): LanguageInfo =>
+  LANGUAGES.find(l => l.id === language) ?? LANGUAGES[0];
+
+/**
+ * Looks up a language by name ("Spanish") or code ("es"), ignoring case.
+ */
+export const findLanguage = (value: string): Language | undefined => {
+  const needle = value.trim().toLowerCase();
+  return LANGUAGES.find(lang => lang.id.toLowerCase() === needle || lang.code.toLowerCase() === needle)?.id;
+};
+
+/**
+ * Looks up a voice by id or name, ignoring case.
+ */
+export const findVoice = (value: string): VoiceOption | undefined => {
+  const needle = value.trim().toLowerCase();
+  return VOICES.find(voice => voice.id.toLowerCase() === needle || voice.name.toLowerCase() === needle);
+};
+
+/**
+ * Voices suited to the given language, falling back to all voices if none match.
+ */
+export const voicesForLanguage = (language: Language): VoiceOption[] => {
+  const matches = VOICES.filter(v => v.languages.includes(language));
+  return matches.length > 0 ? matches : VOICES;
+};
+
+/**
+ * Splits text after sentence-ending punctuation (including CJK full stops) and at line breaks.
+ */
+export const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[。！？])\s*|(?<=[.!?…])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+/**
+ * True for text in scripts written without spaces between words (Thai, Japanese).
+ */
+export const isUnspacedScript = (text: string): boolean => /[\u0E00-\u0E7F\u3040-\u30FF\u4E00-\u9FFF]/.test(text);
+
+// Common function words used to tell Latin-script languages apart
+const STOPWORDS: Partial<Record<Language, string[]>> = {
+  [Language.ENGLISH]: ['the', 'and', 'is', 'are', 'of', 'to', 'in', 'you', 'that', 'it', 'with', 'for', 'this'],
+  [Language.SPANISH]: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'es', 'un', 'una', 'por', 'con', 'para'],
+  [Language.FRENCH]: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'en', 'que', 'pour', 'avec', 'dans'],
+  [Language.VIETNAMESE]: ['và', 'của', 'là', 'có', 'không', 'những', 'được', 'cho', 'này', 'các', 'một', 'người'],
+};
+
+/**
+ * Detects the language of a text offline, first by script and then by function words.
+ * Returns null when there is not enough signal.
+ */
+export const detectLanguage = (text: string): Language | null => {
+  const sample = text.slice(0, 2000);
+  if (!sample.trim()) return null;
+
+  if (/[\u0E00-\u0E7F]/.test(sample)) return Language.THAI;
+  if (/[\u3040-\u30FF\u4E00-\u9FFF]/.test(sample)) return Language.JAPANESE;
+  // Letters and tone marks used only by Vietnamese (â/ê/ô are shared with French)
+  if (/[ăđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/i.test(sample)) return Language.VIETNAMESE;
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  let best: Language | null = null;
+  let bestScore = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORDS) as [Language, string[]][]) {
+    const score = words.filter(w => stopwords.includes(w)).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  if (best) return best;
+
+  // Accented Latin letters without stopword hits still lean Spanish/French
+  if (/[ñ¿¡]/i.test(sample)) return Language.SPANISH;
+  if (/[çœèàù]/i.test(sample)) return Language.FRENCH;
+  return null;
+};
+
+/**
+ * Target languages other than the source; never empty, so there is always something to translate into.
+ */
+export const resolveTargets = (targetLangs: Language[], sourceLang: Language): Language[] => {
+  const targets = targetLangs.filter(lang => lang !== sourceLang);
+  if (targets.length > 0) return targets;
+  return [sourceLang === Language.ENGLISH ? Language.VIETNAMESE : Language.ENGLISH];
+};
+
+/**
+ * Resolves an "auto" source selection against the text, defaulting to English.
+ */
+export const resolveSourceLanguage = (text: string, selection: SourceLanguage): Language => {
+  if (selection !== AUTO_DETECT) return selection;
+  return detectLanguage(text) ?? Language.ENGLISH;
+};
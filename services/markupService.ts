@@ -0,0 +1,176 @@
+import { LexiconEntry, SubtitleSegment } from "../types";
+import { escapeRegExp } from "./textUtils";
+
+/**
+ * Speech markup in the input text:
+ *   [pause 1s] / [pause 500ms]  a deliberate silence
+ *   *word*                      emphasis
+ *   {word|respelling}           shown as "word", spoken as "respelling"
+ * Displayed text has the markup stripped; the TTS text has it applied.
+ */
+
+type MarkupToken =
+  | { type: 'text'; text: string }
+  | { type: 'emphasis'; text: string }
+  | { type: 'respell'; word: string; respelling: string }
+  | { type: 'pause'; seconds: number };
+
+export type SpeechPart = { text: string } | { pause: number };
+
+const MARKUP = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\]|\*([^*\n]+)\*|\{([^{}|\n]+)\|([^{}\n]+)\}/gi;
+
+// Bare [pause] and the longest pause honoured
+const DEFAULT_PAUSE = 0.5;
+const MAX_PAUSE = 10;
+
+const tokenize = (text: string): { token: MarkupToken; start: number }[] => {
+  const tokens: { token: MarkupToken; start: number }[] = [];
+  let position = 0;
+  for (const match of text.matchAll(MARKUP)) {
+    const start = match.index!;
+    if (start > position) {
+      tokens.push({ token: { type: 'text', text: text.slice(position, start) }, start: position });
+    }
+    if (match[0].startsWith('[')) {
+      const value = match[1] === undefined ? DEFAULT_PAUSE : Number(match[1]) / (match[2]?.toLowerCase() === 'ms' ? 1000 : 1);
+      tokens.push({ token: { type: 'pause', seconds: Math.min(value, MAX_PAUSE) }, start });
+    } else if (match[3] !== undefined) {
+      tokens.push({ token: { type: 'emphasis', text: match[3] }, start });
+    } else {
+      tokens.push({ token: { type: 'respell', word: match[4], respelling: match[5] }, start });
+    }
+    position = start + match[0].length;
+  }
+  if (position < text.length) {
+    tokens.push({ token: { type: 'text', text: text.slice(position) }, start: position });
+  }
+  return tokens;
+};
+
+export const hasMarkup = (text: string): boolean => new RegExp(MARKUP.source, 'i').test(text);
+
+/**
+ * Display text plus, for every character of it, its index in the marked-up source.
+ * `sourceIndex` has one extra entry mapping the end of the display text.
+ */
+const stripWithMap = (text: string): { display: string; sourceIndex: number[] } => {
+  let display = '';
+  const sourceIndex: number[] = [];
+  // `from` is where the text starts in the source; `opening` is the token start, so a
+  // segment beginning at a marked word keeps its opening delimiter
+  const append = (value: string, from: number, opening = from) => {
+    for (let i = 0; i < value.length; i++) {
+      // A removed pause leaves the spaces around it; keep just one
+      if (/[ \t]/.test(value[i]) && /[ \t]$/.test(display)) continue;
+      display += value[i];
+      sourceIndex.push(i === 0 ? opening : from + i);
+    }
+  };
+
+  // Pauses contribute no display text
+  for (const { token, start } of tokenize(text)) {
+    if (token.type === 'text') append(token.text, start);
+    else if (token.type === 'emphasis') append(token.text, start + 1, start);
+    else if (token.type === 'respell') append(token.word, start + 1, start);
+  }
+  sourceIndex.push(text.length);
+  return { display, sourceIndex };
+};
+
+/**
+ * The text as shown in subtitles, without any markup.
+ */
+export const stripMarkup = (text: string): string => stripWithMap(text).display.trim();
+
+/**
+ * Segment fields for text typed with markup: display text in `original`, source in `markup`.
+ */
+export const markupFields = (text: string): Pick<SubtitleSegment, 'original' | 'markup'> =>
+  hasMarkup(text) ? { original: stripMarkup(text), markup: text } : { original: text, markup: undefined };
+
+/**
+ * Replaces whole-word lexicon matches (case-insensitive) with their respellings.
+ */
+export const applyLexicon = (text: string, lexicon: LexiconEntry[]): string =>
+  lexicon.reduce((result, entry) => {
+    if (!entry.word.trim()) return result;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entry.word.trim())}(?![\\p{L}\\p{N}])`, 'giu');
+    return result.replace(pattern, () => entry.respelling);
+  }, text);
+
+/**
+ * Turns marked-up text into what the TTS should read: text runs separated by pauses.
+ * Emphasis keeps its asterisks for `withEmphasisInstruction`; inline respellings win
+ * over the lexicon.
+ */
+export const speechParts = (text: string, lexicon: LexiconEntry[] = []): SpeechPart[] => {
+  const parts: SpeechPart[] = [];
+  let run = '';
+  const flush = () => {
+    const spoken = run.replace(/\s+/g, ' ').trim();
+    if (spoken) parts.push({ text: spoken });
+    run = '';
+  };
+
+  for (const { token } of tokenize(text)) {
+    if (token.type === 'text') run += applyLexicon(token.text, lexicon);
+    else if (token.type === 'emphasis') run += `*${applyLexicon(token.text, lexicon)}*`;
+    else if (token.type === 'respell') run += token.respelling;
+    else {
+      flush();
+      const last = parts[parts.length - 1];
+      if (last && 'pause' in last) last.pause += token.seconds;
+      else parts.push({ pause: token.seconds });
+    }
+  }
+  flush();
+  return parts;
+};
+
+/**
+ * TTS prompt for a text run from `speechParts`: when it has emphasised words, a style
+ * instruction asking for them to be stressed, which works in every language (unlike
+ * capitals, which some scripts lack and which invite spelling words out).
+ */
+export const withEmphasisInstruction = (text: string): string =>
+  /\*[^*\n]+\*/.test(text)
+    ? `Read the following aloud, stressing the words between asterisks and without saying the asterisks:\n${text}`
+    : text;
+
+/**
+ * Re-attaches markup to segments a provider produced from the stripped text. Each segment
+ * is located in order; the markup up to the next word (e.g. a pause between sentences)
+ * goes with it. Segments the provider reworded are left without markup.
+ */
+export const attachMarkup = (segments: SubtitleSegment[], source: string): SubtitleSegment[] => {
+  if (!hasMarkup(source)) return segments;
+  const { display, sourceIndex } = stripWithMap(source);
+  let cursor = 0;
+
+  return segments.map(seg => {
+    const text = seg.original.trim();
+    const at = text ? display.indexOf(text, cursor) : -1;
+    if (at === -1) return seg;
+
+    let next = at + text.length;
+    cursor = next;
+    while (next < display.length && /\s/.test(display[next])) next++;
+    // Markup before the first word (e.g. an opening pause) belongs to the first segment
+    const from = display.slice(0, at).trim() ? sourceIndex[at] : 0;
+    const markup = source.slice(from, sourceIndex[next]).trim();
+    return hasMarkup(markup) ? { ...seg, markup } : seg;
+  });
+};
+
+/**
+ * Parses a lexicon typed as one `word = respelling` per line.
+ */
+export const parseLexicon = (text: string): LexiconEntry[] =>
+  text
+    .split('\n')
+    .map(line => line.split('='))
+    .filter(parts => parts.length === 2 && parts[0].trim() && parts[1].trim())
+    .map(([word, respelling]) => ({ word: word.trim(), respelling: respelling.trim() }));
+
+export const formatLexicon = (lexicon: LexiconEntry[]): string =>
+  lexicon.map(entry => `${entry.word} = ${entry.respelling}`).join('\n');
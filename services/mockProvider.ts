@@ -0,0 +1,182 @@
+import { Language, SubtitleSegment, Translations, AIProvider, GlossaryEntry } from "../types";
+import { SAMPLE_RATE, BYTES_PER_SAMPLE, pcmToBase64 } from "./audioUtils";
+import { splitSentences } from "./languageService";
+import { applyGlossary } from "./glossaryService";
+
+/**
+ * Deterministic offline provider for development, demos and automated tests.
+ * Translations come from a small phrasebook (or are tagged with the target language),
+ * and speech is a tone burst per word with real pauses between words and sentences.
+ */
+
+export interface MockConfig {
+  // Simulated network latency per request in milliseconds
+  latency?: number;
+  // Extra sentence -> translation pairs per target language, merged over the built-in phrasebook
+  phrasebook?: Partial<Record<Language, Record<string, string>>>;
+}
+
+// Keyed by target language, then by lower-cased source sentence
+const PHRASEBOOK: Partial<Record<Language, Record<string, string>>> = {
+  [Language.VIETNAMESE]: {
+    'hello.': 'Xin chào.',
+    'good morning.': 'Chào buổi sáng.',
+    'how are you?': 'Bạn khỏe không?',
+    'thank you.': 'Cảm ơn bạn.',
+    'goodbye.': 'Tạm biệt.',
+  },
+  [Language.ENGLISH]: {
+    'xin chào.': 'Hello.',
+    'chào buổi sáng.': 'Good morning.',
+    'bạn khỏe không?': 'How are you?',
+    'cảm ơn bạn.': 'Thank you.',
+    'tạm biệt.': 'Goodbye.',
+  },
+  [Language.JAPANESE]: {
+    'hello.': 'こんにちは。',
+    'thank you.': 'ありがとう。',
+  },
+  [Language.SPANISH]: {
+    'hello.': 'Hola.',
+    'thank you.': 'Gracias.',
+  },
+  [Language.FRENCH]: {
+    'hello.': 'Bonjour.',
+    'thank you.': 'Merci.',
+  },
+  [Language.THAI]: {
+    'hello.': 'สวัสดี',
+    'thank you.': 'ขอบคุณ',
+  },
+};
+
+const WORD_SECONDS_PER_CHAR = 0.06;
+const MIN_WORD_SECONDS = 0.12;
+const WORD_GAP_SECONDS = 0.08;
+const SENTENCE_GAP_SECONDS = 0.4;
+const RAMP_SECONDS = 0.01;
+
+// Stable pitch per voice so different voices are audibly distinct
+const voiceFrequency = (voiceName: string) => {
+  let hash = 0;
+  for (const ch of voiceName) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return 160 + (hash % 12) * 20;
+};
+
+// As in retry.ts, the abort listener is removed when the timer fires, since every call
+// of a job shares its signal
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Renders one tone burst per word with a short attack/release to avoid clicks.
+ */
+const synthesizeTones = (text: string, frequency: number): Uint8Array => {
+  const pieces: { seconds: number; tone: boolean }[] = [];
+  for (const sentence of splitSentences(text)) {
+    const words = sentence.split(/\s+/).filter(Boolean);
+    words.forEach((word, i) => {
+      pieces.push({ seconds: Math.max(MIN_WORD_SECONDS, word.length * WORD_SECONDS_PER_CHAR), tone: true });
+      pieces.push({ seconds: i === words.length - 1 ? SENTENCE_GAP_SECONDS : WORD_GAP_SECONDS, tone: false });
+    });
+  }
+
+  const totalSamples = pieces.reduce((sum, p) => sum + Math.round(p.seconds * SAMPLE_RATE), 0);
+  const pcm = new Uint8Array(totalSamples * BYTES_PER_SAMPLE);
+  const view = new DataView(pcm.buffer);
+  const ramp = Math.round(RAMP_SECONDS * SAMPLE_RATE);
+  let offset = 0;
+
+  for (const piece of pieces) {
+    const length = Math.round(piece.seconds * SAMPLE_RATE);
+    if (piece.tone) {
+      for (let i = 0; i < length; i++) {
+        const envelope = Math.min(1, i / ramp, (length - i) / ramp);
+        const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.3 * envelope;
+        view.setInt16((offset + i) * BYTES_PER_SAMPLE, Math.round(sample * 32767), true);
+      }
+    }
+    offset += length;
+  }
+  return pcm;
+};
+
+export const createMockProvider = (config: MockConfig = {}): AIProvider => {
+  const phrasebook: Partial<Record<Language, Record<string, string>>> = {};
+  for (const language of Object.values(Language)) {
+    const entries = { ...PHRASEBOOK[language] };
+    for (const [source, target] of Object.entries(config.phrasebook?.[language] ?? {})) {
+      entries[source.trim().toLowerCase()] = target;
+    }
+    phrasebook[language] = entries;
+  }
+
+  const delay = async (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    if (config.latency) await sleep(config.latency, signal);
+  };
+
+  const translate = (line: string, targetLang: Language) =>
+    phrasebook[targetLang]?.[line.trim().toLowerCase()] ?? `[${targetLang}] ${line}`;
+
+  // Glossary terms are substituted so offline runs exercise terminology checks
+  const translateAll = (line: string, targetLangs: Language[], glossary: GlossaryEntry[] = []): Translations =>
+    Object.fromEntries(targetLangs.map(lang => [lang, applyGlossary(translate(line, lang), glossary, lang)]));
+
+  return {
+    id: 'mock',
+    name: 'Offline Mock',
+    translationModel: 'mock-translate',
+    ttsModel: 'mock-tts',
+
+    translateAndSegment: async (
+      text: string,
+      _sourceLang: Language,
+      targetLangs: Language[],
+      signal?: AbortSignal,
+      glossary?: GlossaryEntry[]
+    ): Promise<SubtitleSegment[]> => {
+      await delay(signal);
+      return splitSentences(text).map((sentence, index) => ({
+        id: index,
+        original: sentence,
+        translations: translateAll(sentence, targetLangs, glossary),
+        startTime: 0,
+        endTime: 0
+      }));
+    },
+
+    translateLines: async (
+      lines: string[],
+      _sourceLang: Language,
+      targetLangs: Language[],
+      signal?: AbortSignal,
+      glossary?: GlossaryEntry[]
+    ): Promise<Translations[]> => {
+      await delay(signal);
+      return lines.map(line => translateAll(line, targetLangs, glossary));
+    },
+
+    generateSpeech: async (text: string, voiceName: string, signal?: AbortSignal): Promise<string> => {
+      await delay(signal);
+      // Emphasis asterisks are not spoken
+      return pcmToBase64(synthesizeTones(text.replace(/\*/g, ''), voiceFrequency(voiceName)));
+    }
+  };
+};
+
+export const mockProvider = createMockProvider();
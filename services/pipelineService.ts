@@ -0,0 +1,433 @@
+import { Language, SubtitleSegment, GenerationResult, ProcessOptions, AIProvider, EditableTrack, TranslationAudioMode, LexiconEntry, GlossaryEntry } from "../types";
+import { SAMPLE_RATE, BYTES_PER_SAMPLE, base64ToPcm, pcmToBase64, pcmDuration, createSilence, concatPcm } from "./audioUtils";
+import { snapToSilences } from "./alignmentService";
+import { spliceSegmentAudio } from "./segmentEditService";
+import { DialogueLine } from "./dialogueService";
+import { speechParts, stripMarkup, attachMarkup, markupFields, applyLexicon } from "./markupService";
+
+/**
+ * The voice for a segment: its speaker's voice in dialogues, otherwise the default.
+ */
+export const voiceForSegment = (
+  seg: SubtitleSegment,
+  voiceName: string,
+  speakerVoices: Record<string, string> = {}
+): string => (seg.speaker && speakerVoices[seg.speaker]) || voiceName;
+
+/**
+ * Speaks marked-up text: every run between pauses is one TTS call and pauses become silence.
+ * A trailing pause is returned separately so callers can place it after the segment ends.
+ */
+const speakMarkup = async (
+  provider: AIProvider,
+  text: string,
+  voiceName: string,
+  lexicon: LexiconEntry[] = [],
+  signal?: AbortSignal
+): Promise<{ pcm: Uint8Array; pauseAfter: number }> => {
+  const parts = speechParts(text, lexicon);
+  const last = parts[parts.length - 1];
+  const pauseAfter = last && 'pause' in last ? last.pause : 0;
+  if (pauseAfter > 0) parts.pop();
+
+  const chunks: Uint8Array[] = [];
+  for (const part of parts) {
+    chunks.push('pause' in part
+      ? createSilence(part.pause)
+      : base64ToPcm(await provider.generateSpeech(part.text, voiceName, signal)));
+  }
+  return { pcm: concatPcm(chunks), pauseAfter };
+};
+
+/**
+ * Translates free text that may contain speech markup. The provider sees the text without
+ * markup; the markup is then re-attached to the segments it belongs to.
+ */
+export const translateMarkedText = async (
+  provider: AIProvider,
+  text: string,
+  sourceLang: Language,
+  targetLangs: Language[],
+  signal?: AbortSignal,
+  glossary?: GlossaryEntry[]
+): Promise<SubtitleSegment[]> =>
+  attachMarkup(await provider.translateAndSegment(stripMarkup(text), sourceLang, targetLangs, signal, glossary), text);
+
+/**
+ * Synthesizes each segment on its own and concatenates the chunks with `gap` seconds of
+ * silence between them. Timestamps come from exact sample counts, not estimates.
+ * `speakerVoices` (speaker tag -> voice name) overrides the voice for dialogue segments.
+ * A pause marked at the end of a segment is inserted after it, outside its timing.
+ */
+export const synthesizePerSegment = async (
+  provider: AIProvider,
+  segments: SubtitleSegment[],
+  voiceName: string,
+  gap = 0,
+  signal?: AbortSignal,
+  speakerVoices?: Record<string, string>,
+  lexicon: LexiconEntry[] = []
+): Promise<GenerationResult> => {
+  const gapPcm = createSilence(gap);
+  const chunks: Uint8Array[] = [];
+  const timed: SubtitleSegment[] = [];
+  let samples = 0;
+
+  for (const [index, seg] of segments.entries()) {
+    if (index > 0 && gapPcm.length > 0) {
+      chunks.push(gapPcm);
+      samples += gapPcm.length / BYTES_PER_SAMPLE;
+    }
+
+    const { pcm, pauseAfter } = await speakMarkup(
+      provider, seg.markup ?? seg.original, voiceForSegment(seg, voiceName, speakerVoices), lexicon, signal
+    );
+    const startSample = samples;
+    chunks.push(pcm);
+    samples += pcm.length / BYTES_PER_SAMPLE;
+
+    timed.push({
+      ...seg,
+      startTime: startSample / SAMPLE_RATE,
+      endTime: samples / SAMPLE_RATE
+    });
+
+    if (pauseAfter > 0) {
+      const pausePcm = createSilence(pauseAfter);
+      chunks.push(pausePcm);
+      samples += pausePcm.length / BYTES_PER_SAMPLE;
+    }
+  }
+
+  return {
+    audioBase64: pcmToBase64(concatPcm(chunks)),
+    segments: timed
+  };
+};
+
+/**
+ * Speaks already-translated segments and times them, either per segment (exact)
+ * or in one call with boundaries aligned against the audio. In single-pass mode, marked
+ * pauses split the text into separate calls joined by the exact silence.
+ */
+export const synthesizeSegments = async (
+  provider: AIProvider,
+  segments: SubtitleSegment[],
+  voiceName: string,
+  options: ProcessOptions = {}
+): Promise<GenerationResult> => {
+  const { synthesisMode = 'single', segmentGap = 0.3, lexicon = [], signal } = options;
+
+  // Render every segment separately for exact timestamps
+  if (synthesisMode === 'per-segment') {
+    return synthesizePerSegment(provider, segments, voiceName, segmentGap, signal, undefined, lexicon);
+  }
+
+  // Split the text at pauses; without pauses this is the full text in one piece
+  const pieces: { fragments: { index: number; text: string }[]; pauseAfter: number }[] = [{ fragments: [], pauseAfter: 0 }];
+  segments.forEach((seg, index) => {
+    for (const part of speechParts(seg.markup ?? seg.original, lexicon)) {
+      const piece = pieces[pieces.length - 1];
+      if ('pause' in part) {
+        piece.pauseAfter += part.pause;
+      } else if (piece.pauseAfter > 0) {
+        pieces.push({ fragments: [{ index, text: part.text }], pauseAfter: 0 });
+      } else {
+        piece.fragments.push({ index, text: part.text });
+      }
+    }
+  });
+
+  // Each piece is aligned on its own; a segment spans all of its fragments
+  const chunks: Uint8Array[] = [];
+  const spans = segments.map(() => ({ start: Infinity, end: -Infinity }));
+  let offset = 0;
+  for (const piece of pieces) {
+    if (piece.fragments.length > 0) {
+      const pcm = base64ToPcm(await provider.generateSpeech(piece.fragments.map(f => f.text).join(' '), voiceName, signal));
+      const fragments = piece.fragments.map(f => ({ id: f.index, original: f.text, translations: {}, startTime: 0, endTime: 0 }));
+      alignSegments(fragments, pcmDuration(pcm), pcm).forEach((fragment, i) => {
+        const span = spans[piece.fragments[i].index];
+        span.start = Math.min(span.start, offset + fragment.startTime);
+        span.end = Math.max(span.end, offset + fragment.endTime);
+      });
+      chunks.push(pcm);
+      offset += pcmDuration(pcm);
+    }
+    if (piece.pauseAfter > 0) {
+      chunks.push(createSilence(piece.pauseAfter));
+      offset += piece.pauseAfter;
+    }
+  }
+
+  // Segments with nothing to say sit at the end of the previous one
+  let previousEnd = 0;
+  return {
+    audioBase64: pcmToBase64(concatPcm(chunks)),
+    segments: segments.map((seg, index) => {
+      const { start, end } = spans[index];
+      const startTime = isFinite(start) ? start : previousEnd;
+      previousEnd = isFinite(end) ? end : startTime;
+      return { ...seg, startTime, endTime: previousEnd };
+    })
+  };
+};
+
+/**
+ * Orchestrates the full process: Translation -> TTS -> Timestamp Alignment
+ */
+export const processContent = async (
+  provider: AIProvider,
+  text: string,
+  sourceLang: Language,
+  targetLangs: Language[],
+  voiceName: string,
+  options: ProcessOptions = {}
+): Promise<GenerationResult> => {
+  // 1. Translate and Segment
+  const segments = await translateMarkedText(provider, text, sourceLang, targetLangs, options.signal, options.glossary);
+
+  // 2. Generate Audio and time the segments
+  return synthesizeSegments(provider, segments, voiceName, options);
+};
+
+/**
+ * Voices a dialogue script: each turn becomes one segment labelled with its speaker and
+ * is read by that speaker's voice, mixed into a single track.
+ */
+export const processDialogue = async (
+  provider: AIProvider,
+  lines: DialogueLine[],
+  sourceLang: Language,
+  targetLangs: Language[],
+  voiceName: string,
+  speakerVoices: Record<string, string>,
+  options: ProcessOptions = {}
+): Promise<GenerationResult> => {
+  const { segmentGap = 0.3, lexicon, glossary, signal } = options;
+
+  // 1. Translate turn by turn so segments stay aligned with speakers
+  const translations = await provider.translateLines(lines.map(l => stripMarkup(l.text)), sourceLang, targetLangs, signal, glossary);
+  const segments: SubtitleSegment[] = lines.map((line, index) => ({
+    id: index,
+    ...markupFields(line.text),
+    translations: translations[index],
+    speaker: line.speaker,
+    startTime: 0,
+    endTime: 0
+  }));
+
+  // 2. Voices differ per turn, so the track is always rendered segment by segment
+  return synthesizePerSegment(provider, segments, voiceName, segmentGap, signal, speakerVoices, lexicon);
+};
+
+// Speech may run this far past the cue end before the cue is flagged as overrunning
+const OVERRUN_TOLERANCE = 0.05;
+
+/**
+ * Re-voices imported subtitle cues: translates each cue, synthesizes it separately and
+ * places the audio at the cue's start time, padding gaps with silence.
+ * Cues whose speech does not fit their time window are flagged via `overrun`.
+ */
+export const processSubtitles = async (
+  provider: AIProvider,
+  cues: SubtitleSegment[],
+  sourceLang: Language,
+  targetLangs: Language[],
+  voiceName: string,
+  options: Pick<ProcessOptions, 'lexicon' | 'glossary' | 'signal'> = {}
+): Promise<GenerationResult> => {
+  const { lexicon, glossary, signal } = options;
+
+  // 1. Translate each cue, keeping the original timings
+  const marked = cues.map(c => markupFields(c.markup ?? c.original));
+  const translations = await provider.translateLines(marked.map(m => m.original), sourceLang, targetLangs, signal, glossary);
+
+  // 2. Synthesize each cue and lay it out on the cue timeline
+  const chunks: Uint8Array[] = [];
+  let cursor = 0;
+  const segments: SubtitleSegment[] = [];
+
+  for (const [index, cue] of cues.entries()) {
+    const { pcm, pauseAfter } = await speakMarkup(provider, cue.markup ?? cue.original, voiceName, lexicon, signal);
+
+    if (cue.startTime > cursor) {
+      chunks.push(createSilence(cue.startTime - cursor));
+      cursor = cue.startTime;
+    }
+    chunks.push(pcm);
+
+    const spoken = pcmDuration(pcm);
+    // Measure against where the speech actually ends, since an earlier overrun delays this cue
+    const overrun = cursor + spoken - cue.endTime;
+    cursor += spoken + pauseAfter;
+    if (pauseAfter > 0) chunks.push(createSilence(pauseAfter));
+
+    segments.push({
+      ...cue,
+      ...marked[index],
+      id: index,
+      translations: translations[index],
+      overrun: overrun > OVERRUN_TOLERANCE ? overrun : undefined
+    });
+  }
+
+  // 3. Pad the tail so the track covers the last cue
+  const lastEnd = cues[cues.length - 1]?.endTime ?? 0;
+  if (lastEnd > cursor) {
+    chunks.push(createSilence(lastEnd - cursor));
+  }
+
+  return {
+    audioBase64: pcmToBase64(concatPcm(chunks)),
+    segments
+  };
+};
+
+// Byte offset of a time in 16-bit PCM, clamped to the buffer
+const byteOffset = (pcm: Uint8Array, seconds: number) =>
+  Math.min(pcm.length, Math.max(0, Math.round(seconds * SAMPLE_RATE) * BYTES_PER_SAMPLE));
+
+export interface SpokenTranslationTracks {
+  // Original sentence, pause, then its translation, for every segment
+  interleaved?: EditableTrack;
+  // Only the translations, one after another
+  translated?: EditableTrack;
+}
+
+/**
+ * Synthesizes one translation of every segment and builds the requested dual-language tracks
+ * from an already timed original track. `pause` is the silence in seconds after each spoken part.
+ */
+export const speakTranslations = async (
+  provider: AIProvider,
+  track: EditableTrack,
+  language: Language,
+  voiceName: string,
+  options: { mode: Exclude<TranslationAudioMode, 'off'>; pause?: number; lexicon?: LexiconEntry[]; signal?: AbortSignal }
+): Promise<SpokenTranslationTracks> => {
+  const { mode, pause = 0.8, lexicon = [], signal } = options;
+  const { segments, pcm } = track;
+  if (!pcm) return {};
+
+  const speech: Uint8Array[] = [];
+  for (const seg of segments) {
+    const text = seg.translations[language]?.trim();
+    speech.push(text ? base64ToPcm(await provider.generateSpeech(applyLexicon(text, lexicon), voiceName, signal)) : new Uint8Array(0));
+  }
+
+  const pausePcm = createSilence(pause);
+  const result: SpokenTranslationTracks = {};
+
+  if (mode !== 'translated') {
+    const chunks: Uint8Array[] = [];
+    let cursor = 0;
+    const timed = segments.map((seg, index) => {
+      if (index > 0) {
+        chunks.push(pausePcm);
+        cursor += pause;
+      }
+      const original = pcm.subarray(byteOffset(pcm, seg.startTime), byteOffset(pcm, seg.endTime));
+      const startTime = cursor;
+      const offset = pcmDuration(original);
+      chunks.push(original);
+      cursor += offset;
+
+      // Segments without a translation keep just the original
+      if (speech[index].length > 0) {
+        chunks.push(pausePcm, speech[index]);
+        cursor += pause + pcmDuration(speech[index]);
+      }
+      return {
+        ...seg,
+        startTime,
+        endTime: cursor,
+        spokenTranslation: speech[index].length > 0 ? { language, offset } : undefined
+      };
+    });
+    result.interleaved = { segments: timed, pcm: concatPcm(chunks) };
+  }
+
+  if (mode !== 'interleaved') {
+    const chunks: Uint8Array[] = [];
+    let cursor = 0;
+    const timed = segments.map((seg, index) => {
+      if (index > 0) {
+        chunks.push(pausePcm);
+        cursor += pause;
+      }
+      const startTime = cursor;
+      chunks.push(speech[index]);
+      cursor += pcmDuration(speech[index]);
+      return { ...seg, startTime, endTime: cursor, spokenTranslation: { language, offset: 0 } };
+    });
+    result.translated = { segments: timed, pcm: concatPcm(chunks) };
+  }
+
+  return result;
+};
+
+/**
+ * Helper to estimate timestamps based on character count relative to total duration.
+ * Since we don't get word-level timestamps from the API yet, this provides a visual approximation.
+ * When the raw PCM is supplied, the estimate is only used as the prior for snapping
+ * boundaries to real pauses in the audio.
+ */
+export const alignSegments = (
+  segments: SubtitleSegment[],
+  duration: number,
+  pcm?: Uint8Array
+): SubtitleSegment[] => {
+  const totalChars = segments.reduce((sum, seg) => sum + seg.original.length, 0);
+  let currentTime = 0;
+
+  const estimated = segments.map(seg => {
+    const segmentDuration = (seg.original.length / totalChars) * duration;
+    const aligned = {
+      ...seg,
+      startTime: currentTime,
+      endTime: currentTime + segmentDuration
+    };
+    currentTime += segmentDuration;
+    return aligned;
+  });
+
+  return pcm ? snapToSilences(estimated, pcm) : estimated;
+};
+
+/**
+ * Re-synthesizes one segment after its original text changed and splices the new
+ * audio into the existing track in place of the old. A trailing pause is not re-inserted,
+ * since the one already in the track sits outside the segment. `postProcess` brings the
+ * new audio in line with a processed track before it is spliced in.
+ */
+export const resynthesizeSegment = async (
+  provider: AIProvider,
+  track: EditableTrack,
+  index: number,
+  voiceName: string,
+  speakerVoices?: Record<string, string>,
+  lexicon?: LexiconEntry[],
+  postProcess?: (pcm: Uint8Array, startTime: number) => Uint8Array
+): Promise<EditableTrack> => {
+  const seg = track.segments[index];
+  if (!seg || !track.pcm) return track;
+  const spoken = await speakMarkup(provider, seg.markup ?? seg.original, voiceForSegment(seg, voiceName, speakerVoices), lexicon);
+  const original = postProcess ? postProcess(spoken.pcm, seg.startTime) : spoken.pcm;
+  if (!seg.spokenTranslation) {
+    return spliceSegmentAudio(track, index, original);
+  }
+
+  // Dual-language segments keep their spoken translation after the new original
+  const translation = track.pcm.subarray(
+    byteOffset(track.pcm, seg.startTime + seg.spokenTranslation.offset),
+    byteOffset(track.pcm, seg.endTime)
+  );
+  const spliced = spliceSegmentAudio(track, index, concatPcm([original, translation]));
+  return {
+    ...spliced,
+    segments: spliced.segments.map((s, i) =>
+      i === index ? { ...s, spokenTranslation: { ...seg.spokenTranslation!, offset: pcmDuration(original) } } : s
+    )
+  };
+};
@@ -0,0 +1,386 @@
+import { PostProcessSettings, SubtitleSegment } from "../types";
+import { SAMPLE_RATE } from "./audioUtils";
+import { decodePcm16, encodePcm16, computeRmsEnvelope, detectSilences, SilenceRegion } from "./alignmentService";
+
+/**
+ * Post-processing between synthesis and playback: silence trimming, loudness
+ * normalization, an optional ducked music bed and edge fades. Pure computation
+ * apart from `decodeMusicFile`, which needs Web Audio.
+ */
+
+export const DEFAULT_POST_PROCESS: PostProcessSettings = {
+  enabled: false,
+  targetLufs: -16,
+  maxSilence: 0,
+  edgeSilence: 0.3,
+  fadeMs: 30,
+  musicLevel: -18,
+  duckDepth: 10,
+};
+
+// The limiter keeps sample peaks of the final mix below this
+const PEAK_CEILING_DB = -1;
+// Limiter gain ramps down over the look-ahead before a peak and recovers over the release
+const LIMITER_LOOKAHEAD = 0.005;
+const LIMITER_RELEASE = 0.08;
+// Splices inside pauses are faded to avoid clicks from residual noise
+const SPLICE_FADE = 0.01;
+// The music bed fades in and out over this many seconds
+const MUSIC_FADE = 1.5;
+// Ducking envelope: frames are 10ms, the music dips ahead of speech and recovers slowly
+const DUCK_HOP = 0.01;
+const DUCK_LOOKAHEAD = 0.1;
+const DUCK_ATTACK = 0.08;
+const DUCK_RELEASE = 0.5;
+const DUCK_THRESHOLD_DB = -35;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+/**
+ * The two K-weighting stages of ITU-R BS.1770 (high shelf, then high pass) for any sample rate.
+ */
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    {
+      b: [
+        (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+        (2 * (shelfK * shelfK - vh)) / shelfA0,
+        (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      ],
+      a: [(2 * (shelfK * shelfK - 1)) / shelfA0, (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0],
+    },
+    {
+      b: [1, -2, 1],
+      a: [(2 * (passK * passK - 1)) / passA0, (1 - passK / passQ + passK * passK) / passA0],
+    },
+  ];
+};
+
+const applyBiquad = (samples: Float32Array, { b, a }: Biquad): Float32Array => {
+  const out = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+};
+
+const loudnessOf = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Gated integrated loudness (LUFS) of a mono signal per ITU-R BS.1770-4.
+ * Returns -Infinity for silence.
+ */
+export const measureLoudness = (samples: Float32Array, sampleRate = SAMPLE_RATE): number => {
+  const weighted = kWeightingFilters(sampleRate).reduce(applyBiquad, samples);
+  const block = Math.round(0.4 * sampleRate);
+  const step = Math.round(0.1 * sampleRate);
+
+  // Audio shorter than one gating block is measured as a whole
+  const size = Math.min(block, weighted.length);
+  const powers: number[] = [];
+  for (let offset = 0; offset + size <= weighted.length && size > 0; offset += step) {
+    let sum = 0;
+    for (let i = offset; i < offset + size; i++) sum += weighted[i] * weighted[i];
+    powers.push(sum / size);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const absolute = powers.filter(p => loudnessOf(p) > -70);
+  if (absolute.length === 0) return -Infinity;
+  const relativeGate = loudnessOf(mean(absolute)) - 10;
+  const gated = absolute.filter(p => loudnessOf(p) > relativeGate);
+  return loudnessOf(mean(gated));
+};
+
+/**
+ * Spans (seconds) to cut so edge silence is `edgeSilence` long and no pause exceeds `maxSilence`.
+ */
+export const silenceCuts = (
+  silences: SilenceRegion[],
+  duration: number,
+  settings: Pick<PostProcessSettings, 'maxSilence' | 'edgeSilence'>
+): SilenceRegion[] => {
+  const cuts: SilenceRegion[] = [];
+  for (const silence of silences) {
+    if (silence.start <= 0) {
+      cuts.push({ start: 0, end: silence.end - settings.edgeSilence });
+    } else if (silence.end >= duration) {
+      cuts.push({ start: silence.start + settings.edgeSilence, end: duration });
+    } else if (settings.maxSilence > 0) {
+      // Keep half of the allowed pause on each side so the speech edges stay intact
+      const keep = settings.maxSilence / 2;
+      cuts.push({ start: silence.start + keep, end: silence.end - keep });
+    }
+  }
+  return cuts.filter(cut => cut.end - cut.start > SPLICE_FADE * 2);
+};
+
+/**
+ * Maps a time in the original audio to the same moment after `cuts` are removed.
+ * Times inside a cut collapse to the splice point.
+ */
+export const remapTime = (time: number, cuts: SilenceRegion[]): number => {
+  let removed = 0;
+  for (const cut of cuts) {
+    if (cut.start >= time) break;
+    removed += Math.min(time, cut.end) - cut.start;
+  }
+  return time - removed;
+};
+
+const remapSegments = (segments: SubtitleSegment[], cuts: SilenceRegion[]): SubtitleSegment[] =>
+  segments.map(seg => {
+    const startTime = remapTime(seg.startTime, cuts);
+    return {
+      ...seg,
+      startTime,
+      endTime: remapTime(seg.endTime, cuts),
+      ...(seg.spokenTranslation && {
+        spokenTranslation: {
+          ...seg.spokenTranslation,
+          offset: remapTime(seg.startTime + seg.spokenTranslation.offset, cuts) - startTime,
+        },
+      }),
+    };
+  });
+
+const fadeIn = (samples: Float32Array, from: number, length: number) => {
+  const end = Math.min(samples.length, from + length);
+  for (let i = from; i < end; i++) samples[i] *= (i - from) / length;
+};
+
+const fadeOut = (samples: Float32Array, to: number, length: number) => {
+  const start = Math.max(0, to - length);
+  for (let i = start; i < to; i++) samples[i] *= (to - i) / length;
+};
+
+/**
+ * Removes the cut spans, fading each splice in and out.
+ */
+const spliceOut = (samples: Float32Array, cuts: SilenceRegion[], sampleRate: number): Float32Array => {
+  if (cuts.length === 0) return samples;
+  const fade = Math.round(SPLICE_FADE * sampleRate);
+  const kept: Float32Array[] = [];
+  let position = 0;
+  for (const cut of cuts) {
+    const start = Math.round(cut.start * sampleRate);
+    if (start > position) kept.push(samples.slice(position, start));
+    position = Math.max(position, Math.round(cut.end * sampleRate));
+  }
+  if (position < samples.length) kept.push(samples.slice(position));
+
+  const result = new Float32Array(kept.reduce((sum, piece) => sum + piece.length, 0));
+  let offset = 0;
+  kept.forEach((piece, i) => {
+    if (i > 0) fadeIn(piece, 0, fade);
+    if (i < kept.length - 1) fadeOut(piece, piece.length, fade);
+    result.set(piece, offset);
+    offset += piece.length;
+  });
+  return result;
+};
+
+/**
+ * Per-sample music gain: full level in pauses, `duckDepth` dB lower under speech,
+ * moving towards the target with separate attack and release times.
+ */
+const duckingEnvelope = (speech: Float32Array, sampleRate: number, duckDepth: number): Float32Array => {
+  const envelope = computeRmsEnvelope(speech, sampleRate, DUCK_HOP * 2, DUCK_HOP);
+  const peak = envelope.reduce((max, v) => Math.max(max, v), 0);
+  const threshold = peak * dbToGain(DUCK_THRESHOLD_DB);
+  const ducked = dbToGain(-duckDepth);
+  const lookahead = Math.round(DUCK_LOOKAHEAD / DUCK_HOP);
+  const attack = 1 - Math.exp(-DUCK_HOP / DUCK_ATTACK);
+  const release = 1 - Math.exp(-DUCK_HOP / DUCK_RELEASE);
+
+  const frameGains = new Float32Array(envelope.length);
+  let gain = 1;
+  for (let f = 0; f < envelope.length; f++) {
+    let speaking = false;
+    for (let k = f; k <= f + lookahead && k < envelope.length; k++) {
+      if (envelope[k] > threshold) { speaking = true; break; }
+    }
+    const target = speaking ? ducked : 1;
+    gain += (target - gain) * (target < gain ? attack : release);
+    frameGains[f] = gain;
+  }
+
+  const hop = DUCK_HOP * sampleRate;
+  const gains = new Float32Array(speech.length);
+  for (let i = 0; i < speech.length; i++) {
+    const position = Math.min(i / hop, Math.max(0, frameGains.length - 1));
+    const index = Math.floor(position);
+    const next = frameGains[Math.min(index + 1, frameGains.length - 1)] ?? 1;
+    gains[i] = (frameGains[index] ?? 1) + (next - (frameGains[index] ?? 1)) * (position - index);
+  }
+  return gains;
+};
+
+/**
+ * Loops the music under the speech at `musicLevel` LU relative to the target, ducked under speech.
+ * The bed starts `offset` samples into the loop and fades in and out unless `fadeBed` is false.
+ */
+const mixMusic = (
+  speech: Float32Array,
+  music: Float32Array,
+  settings: PostProcessSettings,
+  sampleRate: number,
+  offset = 0,
+  fadeBed = true
+): Float32Array => {
+  const musicLoudness = measureLoudness(music, sampleRate);
+  if (!isFinite(musicLoudness) || speech.length === 0) return speech;
+  const level = dbToGain(settings.targetLufs + settings.musicLevel - musicLoudness);
+  const gains = duckingEnvelope(speech, sampleRate, settings.duckDepth);
+  const fade = Math.round(MUSIC_FADE * sampleRate);
+
+  const bed = new Float32Array(speech.length);
+  for (let i = 0; i < bed.length; i++) {
+    bed[i] = music[(offset + i) % music.length] * level * gains[i];
+  }
+  if (fadeBed) {
+    fadeIn(bed, 0, Math.min(fade, bed.length));
+    fadeOut(bed, bed.length, Math.min(fade, bed.length));
+  }
+
+  const mixed = new Float32Array(speech.length);
+  for (let i = 0; i < mixed.length; i++) mixed[i] = speech[i] + bed[i];
+  return mixed;
+};
+
+/**
+ * Look-ahead peak limiter. The gain needed at each sample is turned into a minimum over
+ * the look-ahead window and averaged over the same length, so it ramps down before a
+ * peak and is at or below the needed gain when the peak arrives; it then recovers with
+ * a one-pole release.
+ */
+const limitPeaks = (samples: Float32Array, sampleRate: number, ceiling: number): Float32Array => {
+  const length = Math.max(1, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+  const needed = samples.map(v => Math.min(1, ceiling / Math.max(Math.abs(v), 1e-9)));
+
+  // Minimum over [i, i + length], via a monotonic deque scanned from the end
+  const ahead = new Float32Array(needed.length);
+  const deque: number[] = [];
+  let head = 0;
+  for (let i = needed.length - 1; i >= 0; i--) {
+    while (deque.length > head && needed[deque[deque.length - 1]] >= needed[i]) deque.pop();
+    deque.push(i);
+    if (deque[head] > i + length) head++;
+    ahead[i] = needed[deque[head]];
+  }
+
+  // Average over [i - length, i]; every value in it already covers sample i
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE * sampleRate));
+  const limited = new Float32Array(samples.length);
+  let sum = 0;
+  let gain = 1;
+  for (let i = 0; i < samples.length; i++) {
+    sum += ahead[i] - (i > length ? ahead[i - length - 1] : 0);
+    const smoothed = (sum + Math.max(0, length - i)) / (length + 1);
+    gain = smoothed < gain ? smoothed : gain + (smoothed - gain) * release;
+    limited[i] = samples[i] * gain;
+  }
+  return limited;
+};
+
+/**
+ * Full gain to the loudness target, the music bed, then the peak limit. Peaks the gain
+ * pushes too high are limited after mixing.
+ */
+const normalizeAndMix = (
+  samples: Float32Array,
+  settings: PostProcessSettings,
+  music: Float32Array | null | undefined,
+  sampleRate: number,
+  musicOffset?: number,
+  fadeBed?: boolean
+): Float32Array => {
+  const loudness = measureLoudness(samples, sampleRate);
+  if (isFinite(loudness)) {
+    const gain = dbToGain(settings.targetLufs - loudness);
+    samples = samples.map(v => v * gain);
+  }
+
+  if (music && music.length > 0) {
+    samples = mixMusic(samples, music, settings, sampleRate, musicOffset, fadeBed);
+  }
+  return limitPeaks(samples, sampleRate, dbToGain(PEAK_CEILING_DB));
+};
+
+/**
+ * Runs the post-processing chain on 24kHz PCM and moves the segment timings to match
+ * the trimmed audio. `music` is a mono bed at the same sample rate.
+ */
+export const postProcessAudio = (
+  pcm: Uint8Array,
+  segments: SubtitleSegment[],
+  settings: PostProcessSettings,
+  music?: Float32Array | null,
+  sampleRate = SAMPLE_RATE
+): { pcm: Uint8Array; segments: SubtitleSegment[] } => {
+  const duration = pcm.byteLength / 2 / sampleRate;
+  const cuts = silenceCuts(detectSilences(pcm, { sampleRate }), duration, settings);
+  const samples = normalizeAndMix(spliceOut(decodePcm16(pcm), cuts, sampleRate), settings, music, sampleRate);
+
+  const fade = Math.round((settings.fadeMs / 1000) * sampleRate);
+  fadeIn(samples, 0, Math.min(fade, samples.length));
+  fadeOut(samples, samples.length, Math.min(fade, samples.length));
+
+  return { pcm: encodePcm16(samples), segments: remapSegments(segments, cuts) };
+};
+
+/**
+ * Runs the chain on new audio for one segment of an already processed track, which
+ * starts at `startTime` in it. Long pauses are capped as in the full track and the
+ * music bed continues from that point, but the edges are not padded or faded since
+ * the audio sits between other segments.
+ */
+export const postProcessSegment = (
+  pcm: Uint8Array,
+  startTime: number,
+  settings: PostProcessSettings,
+  music?: Float32Array | null,
+  sampleRate = SAMPLE_RATE
+): Uint8Array => {
+  const duration = pcm.byteLength / 2 / sampleRate;
+  const { maxSilence } = settings;
+  const cuts = maxSilence > 0
+    ? silenceCuts(detectSilences(pcm, { sampleRate }), duration, { maxSilence, edgeSilence: maxSilence / 2 })
+    : [];
+  const samples = spliceOut(decodePcm16(pcm), cuts, sampleRate);
+  return encodePcm16(normalizeAndMix(samples, settings, music, sampleRate, Math.round(startTime * sampleRate), false));
+};
+
+/**
+ * Decodes a local audio file (any format the browser plays) into a mono bed at `sampleRate`.
+ */
+export const decodeMusicFile = async (file: File, sampleRate = SAMPLE_RATE): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
@@ -0,0 +1,87 @@
+import { strToU8, strFromU8, zipSync, unzipSync } from "fflate";
+import { Project } from "../types";
+import { SAMPLE_RATE, pcmToWav, wavToPcm } from "./audioUtils";
+import { createProjectId } from "./projectStore";
+import { InvalidFileError } from "./errors";
+
+/**
+ * Single-file project bundles: a zip holding `project.json` plus `audio.wav`.
+ */
+
+const BUNDLE_VERSION = 1;
+const PROJECT_FILE = 'project.json';
+const AUDIO_FILE = 'audio.wav';
+
+export const BUNDLE_EXTENSION = '.linguavoice.zip';
+
+export const exportProjectBundle = (project: Project): Blob => {
+  const { pcm, ...metadata } = project;
+  const files: Record<string, Uint8Array> = {
+    [PROJECT_FILE]: strToU8(JSON.stringify({ version: BUNDLE_VERSION, project: metadata }, null, 2)),
+  };
+  if (pcm) {
+    files[AUDIO_FILE] = pcmToWav(pcm);
+  }
+  const zipped = zipSync(files, { level: 6 });
+  return new Blob([zipped], { type: 'application/zip' });
+};
+
+// Checks the fields a project cannot be opened without
+const isProjectMetadata = (value: unknown): value is Omit<Project, 'pcm'> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { name, inputText, settings, segments } = value as Partial<Project>;
+  return typeof name === 'string' && typeof inputText === 'string' &&
+    typeof settings === 'object' && settings !== null && Array.isArray(segments);
+};
+
+/**
+ * Reads a bundle back into a new project. The imported copy gets a fresh id
+ * so it never overwrites an existing project.
+ */
+export const importProjectBundle = async (file: Blob): Promise<Project> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new InvalidFileError("This file is not a valid project bundle.");
+  }
+
+  const manifest = entries[PROJECT_FILE];
+  if (!manifest) {
+    throw new InvalidFileError(`Project bundle is missing ${PROJECT_FILE}.`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(strFromU8(manifest));
+  } catch (error) {
+    throw new InvalidFileError(`Project bundle has an unreadable ${PROJECT_FILE}.`, { cause: error });
+  }
+  const { version, project } = (parsed ?? {}) as { version?: unknown; project?: unknown };
+  if (version === undefined) {
+    throw new InvalidFileError(`Project bundle ${PROJECT_FILE} has no version.`);
+  }
+  if (version !== BUNDLE_VERSION) {
+    throw new InvalidFileError(`Unsupported project bundle version: ${version}.`);
+  }
+  if (!isProjectMetadata(project)) {
+    throw new InvalidFileError(`Project bundle ${PROJECT_FILE} has no valid project.`);
+  }
+
+  let pcm: Uint8Array | null = null;
+  if (entries[AUDIO_FILE]) {
+    const wav = wavToPcm(entries[AUDIO_FILE]);
+    if (wav.sampleRate !== SAMPLE_RATE) {
+      throw new InvalidFileError(`Bundled audio must be ${SAMPLE_RATE} Hz.`);
+    }
+    pcm = wav.pcm;
+  }
+
+  const now = Date.now();
+  return {
+    ...project,
+    id: createProjectId(),
+    updatedAt: now,
+    pcm,
+  };
+};
@@ -0,0 +1,115 @@
+import { Project, ProjectSummary } from "../types";
+import { pcmDuration } from "./audioUtils";
+import { openDb, promisify, transactionDone, STORES } from "./db";
+
+/**
+ * IndexedDB persistence for projects. Metadata and audio live in separate stores
+ * so the history list can be loaded without reading every track.
+ */
+
+const { PROJECTS, AUDIO } = STORES;
+
+export const createProjectId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Lists saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await promisify<ProjectSummary[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, AUDIO]);
+  const [stored, pcm] = await Promise.all([
+    promisify<ProjectSummary | undefined>(tx.objectStore(PROJECTS).get(id)),
+    promisify<Uint8Array | undefined>(tx.objectStore(AUDIO).get(id)),
+  ]);
+  if (!stored) return null;
+  const { duration: _duration, ...project } = stored;
+  return { ...project, pcm: pcm ?? null };
+};
+
+/**
+ * Inserts or replaces a project. Audio is only rewritten when `pcm` is provided,
+ * so metadata-only updates (renames, segment edits) stay cheap.
+ */
+export const saveProject = async (project: Project, options: { writeAudio?: boolean } = {}): Promise<void> => {
+  const { writeAudio = true } = options;
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, AUDIO], 'readwrite');
+  const { pcm, ...metadata } = project;
+
+  tx.objectStore(PROJECTS).put({ ...metadata, duration: pcm ? pcmDuration(pcm) : 0 } as ProjectSummary);
+  if (writeAudio) {
+    if (pcm) {
+      tx.objectStore(AUDIO).put(pcm, project.id);
+    } else {
+      tx.objectStore(AUDIO).delete(project.id);
+    }
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Updates only the metadata fields of a stored project.
+ */
+export const updateProject = async (
+  id: string,
+  changes: Partial<Omit<Project, 'id' | 'pcm'>>
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const stored = await promisify<ProjectSummary | undefined>(store.get(id));
+  if (stored) {
+    store.put({ ...stored, ...changes, updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+};
+
+export const renameProject = (id: string, name: string): Promise<void> =>
+  updateProject(id, { name });
+
+export const duplicateProject = async (id: string): Promise<Project | null> => {
+  const project = await getProject(id);
+  if (!project) return null;
+  const now = Date.now();
+  const copy: Project = {
+    ...project,
+    id: createProjectId(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, AUDIO], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(AUDIO).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Replaces a stored project's audio, e.g. after segments were re-synthesized.
+ */
+export const updateProjectAudio = async (id: string, pcm: Uint8Array): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, AUDIO], 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const stored = await promisify<ProjectSummary | undefined>(store.get(id));
+  if (stored) {
+    store.put({ ...stored, duration: pcmDuration(pcm), updatedAt: Date.now() });
+    tx.objectStore(AUDIO).put(pcm, id);
+  }
+  await transactionDone(tx);
+};
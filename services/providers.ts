@@ -0,0 +1,8 @@
+import { AIProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+export const PROVIDERS: AIProvider[] = [geminiProvider, mockProvider];
+
+export const getProvider = (id: string): AIProvider =>
+  PROVIDERS.find(p => p.id === id) ?? geminiProvider;
@@ -0,0 +1,61 @@
+import { LinguaVoiceError, RateLimitError, toLinguaVoiceError } from "./errors";
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelay?: number; // ms
+  maxDelay?: number;  // ms
+  signal?: AbortSignal;
+  onRetry?: (error: LinguaVoiceError, attempt: number, delay: number) => void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    // The listener is removed again when the timer fires, so retries on a long-lived
+    // job signal do not pile up handlers
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(maxDelay, base * 2^attempt)].
+ * A server-provided retry-after wins when it is longer.
+ */
+export const backoffDelay = (attempt: number, error: LinguaVoiceError, baseDelay: number, maxDelay: number): number => {
+  const jittered = Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt);
+  const retryAfter = error instanceof RateLimitError ? error.retryAfter ?? 0 : 0;
+  return Math.max(jittered, retryAfter);
+};
+
+/**
+ * Runs `fn`, retrying retryable LinguaVoiceErrors. Errors are normalized with
+ * `toLinguaVoiceError` before being rethrown.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelay = 1000, maxDelay = 16000, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error) {
+      const normalized = toLinguaVoiceError(error);
+      if (signal?.aborted || !(normalized instanceof LinguaVoiceError) || !normalized.retryable || attempt >= retries) {
+        throw normalized;
+      }
+      const delay = backoffDelay(attempt, normalized, baseDelay, maxDelay);
+      onRetry?.(normalized, attempt + 1, delay);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { EditableTrack, SubtitleSegment } from '../types';
+import { SAMPLE_RATE } from './audioUtils';
+import { deleteSegment, moveSegment } from './segmentEditService';
+
+// Audio built from constant-valued regions, so where each piece of speech ended up can
+// be read back from the samples
+const regions = (parts: [value: number, seconds: number][]): Uint8Array => {
+  const samples = parts.flatMap(([value, seconds]) => Array<number>(Math.round(seconds * SAMPLE_RATE)).fill(value));
+  return new Uint8Array(Int16Array.from(samples).buffer);
+};
+
+// The region values in order, with runs collapsed, and each run's length in seconds
+const layout = (pcm: Uint8Array): [number, number][] => {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, pcm.byteLength / 2);
+  const runs: [number, number][] = [];
+  for (const value of samples) {
+    const last = runs[runs.length - 1];
+    if (last && last[0] === value) last[1]++;
+    else runs.push([value, 1]);
+  }
+  return runs.map(([value, count]) => [value, count / SAMPLE_RATE]);
+};
+
+const cue = (original: string, startTime: number, endTime: number, id = 0): SubtitleSegment => ({
+  id,
+  original,
+  translations: {},
+  startTime,
+  endTime
+});
+
+describe('moveSegment', () => {
+  it('swaps the audio of two segments and keeps the pause between them', () => {
+    const track: EditableTrack = {
+      segments: [cue('One', 0, 1), cue('Two', 1.5, 2, 1)],
+      pcm: regions([[1, 1], [0, 0.5], [2, 0.5]]),
+    };
+    const moved = moveSegment(track, 1, -1);
+
+    expect(moved.segments.map(seg => [seg.original, seg.startTime, seg.endTime])).toEqual([
+      ['Two', 0, 0.5],
+      ['One', 1, 2],
+    ]);
+    expect(layout(moved.pcm!)).toEqual([[2, 0.5], [0, 0.5], [1, 1]]);
+  });
+
+  it('cuts overlapping segments apart instead of duplicating audio', () => {
+    // "One" is timed to end 0.2s into "Two"
+    const track: EditableTrack = {
+      segments: [cue('One', 0, 1.2), cue('Two', 0.8, 2, 1)],
+      pcm: regions([[1, 1], [2, 1]]),
+    };
+    const moved = moveSegment(track, 0, 1);
+
+    expect(moved.pcm!.byteLength).toBe(track.pcm!.byteLength);
+    expect(layout(moved.pcm!)).toEqual([[2, 1], [1, 1]]);
+    expect(moved.segments.map(seg => [seg.original, seg.startTime, seg.endTime])).toEqual([
+      ['Two', 0, 1],
+      ['One', 1, 2],
+    ]);
+  });
+});
+
+describe('deleteSegment', () => {
+  it('cuts the segment audio and moves later segments back', () => {
+    const track: EditableTrack = {
+      segments: [cue('One', 0, 1), cue('Two', 1, 1.5, 1), cue('Three', 2, 3, 2)],
+      pcm: regions([[1, 1], [2, 0.5], [0, 0.5], [3, 1]]),
+    };
+    const result = deleteSegment(track, 1);
+
+    expect(layout(result.pcm!)).toEqual([[1, 1], [0, 0.5], [3, 1]]);
+    expect(result.segments.map(seg => [seg.id, seg.original, seg.startTime, seg.endTime])).toEqual([
+      [0, 'One', 0, 1],
+      [1, 'Three', 1.5, 2.5],
+    ]);
+  });
+
+  it('keeps audio a neighbour still covers', () => {
+    const track: EditableTrack = {
+      segments: [cue('One', 0, 1.2), cue('Two', 1, 2, 1)],
+      pcm: regions([[1, 1], [2, 1]]),
+    };
+    const result = deleteSegment(track, 1);
+
+    expect(layout(result.pcm!)).toEqual([[1, 1], [2, 0.2]]);
+    expect(result.segments.map(seg => [seg.original, seg.startTime, seg.endTime])).toEqual([['One', 0, 1.2]]);
+  });
+
+  it('only removes the subtitle when there is no audio', () => {
+    const result = deleteSegment({ segments: [cue('One', 0, 1), cue('Two', 1, 2, 1)], pcm: null }, 0);
+
+    expect(result.pcm).toBeNull();
+    expect(result.segments.map(seg => [seg.id, seg.original, seg.startTime])).toEqual([[0, 'Two', 1]]);
+  });
+});
@@ -0,0 +1,203 @@
+import { Language, SubtitleSegment, Translations, EditableTrack } from "../types";
+import { SAMPLE_RATE, BYTES_PER_SAMPLE, concatPcm, pcmDuration } from "./audioUtils";
+
+/**
+ * Pure operations behind the subtitle editor. Each returns new arrays with ids
+ * renumbered so they stay unique and in display order.
+ */
+
+// Byte offset of a time in 16-bit PCM, clamped to the buffer
+const byteOffset = (pcm: Uint8Array, seconds: number) =>
+  Math.min(pcm.length, Math.max(0, Math.round(seconds * SAMPLE_RATE) * BYTES_PER_SAMPLE));
+
+const renumber = (segments: SubtitleSegment[]): SubtitleSegment[] =>
+  segments.map((seg, index) => (seg.id === index ? seg : { ...seg, id: index }));
+
+export const updateSegment = (
+  segments: SubtitleSegment[],
+  index: number,
+  changes: Partial<Omit<SubtitleSegment, 'id'>>
+): SubtitleSegment[] =>
+  segments.map((seg, i) => (i === index ? { ...seg, ...changes } : seg));
+
+/**
+ * Splits text at the whitespace closest to `ratio` of its length.
+ */
+const splitText = (text: string, ratio: number): [string, string] => {
+  const target = Math.round(text.length * ratio);
+  let best = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i]) && (best === -1 || Math.abs(i - target) < Math.abs(best - target))) {
+      best = i;
+    }
+  }
+  // Scripts without spaces (Japanese, Thai) split at the character position, never
+  // inside a surrogate pair
+  const at = best !== -1 ? best : /[\uDC00-\uDFFF]/.test(text[target] ?? '') ? target - 1 : target;
+  return [text.slice(0, at).trim(), text.slice(at).trim()];
+};
+
+/**
+ * Splits a segment in two at a character offset of its original text (defaults to the middle).
+ * Time and translations are divided in the same proportion.
+ */
+export const splitSegment = (
+  segments: SubtitleSegment[],
+  index: number,
+  offset?: number
+): SubtitleSegment[] => {
+  const seg = segments[index];
+  if (!seg) return segments;
+
+  const at = offset ?? Math.round(seg.original.length / 2);
+  const first = seg.original.slice(0, at).trim();
+  const second = seg.original.slice(at).trim();
+  if (!first || !second) return segments;
+
+  const ratio = first.length / (first.length + second.length);
+  const splitTime = seg.startTime + (seg.endTime - seg.startTime) * ratio;
+
+  const firstTranslations: Translations = {};
+  const secondTranslations: Translations = {};
+  for (const [lang, text] of Object.entries(seg.translations) as [Language, string][]) {
+    [firstTranslations[lang], secondTranslations[lang]] = splitText(text, ratio);
+  }
+
+  // Where the spoken translation starts no longer holds for either half, and the
+  // markup was written for the whole text
+  const { overrun: _overrun, spokenTranslation: _spoken, markup: _markup, ...rest } = seg;
+  return renumber([
+    ...segments.slice(0, index),
+    { ...rest, original: first, translations: firstTranslations, endTime: splitTime },
+    { ...rest, original: second, translations: secondTranslations, startTime: splitTime },
+    ...segments.slice(index + 1),
+  ]);
+};
+
+/**
+ * Merges a segment with the one after it.
+ */
+export const mergeWithNext = (segments: SubtitleSegment[], index: number): SubtitleSegment[] => {
+  const seg = segments[index];
+  const next = segments[index + 1];
+  if (!seg || !next) return segments;
+
+  const translations: Translations = {};
+  const languages = new Set([...Object.keys(seg.translations), ...Object.keys(next.translations)]) as Set<Language>;
+  for (const lang of languages) {
+    translations[lang] = [seg.translations[lang], next.translations[lang]].filter(Boolean).join(' ');
+  }
+
+  const merged: SubtitleSegment = {
+    id: seg.id,
+    original: `${seg.original} ${next.original}`.trim(),
+    ...((seg.markup || next.markup) && {
+      markup: `${seg.markup ?? seg.original} ${next.markup ?? next.original}`.trim()
+    }),
+    translations,
+    startTime: Math.min(seg.startTime, next.startTime),
+    endTime: Math.max(seg.endTime, next.endTime),
+    ...(seg.speaker && seg.speaker === next.speaker && { speaker: seg.speaker }),
+  };
+
+  return renumber([...segments.slice(0, index), merged, ...segments.slice(index + 2)]);
+};
+
+/**
+ * Swaps a segment with its neighbour. When audio is present the two audio regions are
+ * swapped too (keeping any pause between them), so subtitles keep matching the speech.
+ * Segments that overlap (alignment and readability stretching can leave them so) are
+ * first cut apart at the middle of the overlap, so no audio is duplicated or dropped.
+ */
+export const moveSegment = (track: EditableTrack, index: number, direction: -1 | 1): EditableTrack => {
+  const { segments, pcm } = track;
+  const firstIndex = Math.min(index, index + direction);
+  const a = segments[firstIndex];
+  const b = segments[firstIndex + 1];
+  if (!a || !b) return track;
+
+  const middle = Math.min(Math.max((a.endTime + b.startTime) / 2, a.startTime), b.endTime);
+  const aEndTime = a.endTime > b.startTime ? middle : a.endTime;
+  const bStartTime = a.endTime > b.startTime ? middle : b.startTime;
+
+  const gap = bStartTime - aEndTime;
+  const bDuration = b.endTime - bStartTime;
+  const movedB = { ...b, startTime: a.startTime, endTime: a.startTime + bDuration };
+  const movedA = { ...a, startTime: movedB.endTime + gap, endTime: movedB.endTime + gap + (aEndTime - a.startTime) };
+
+  let newPcm = pcm;
+  if (pcm) {
+    const aStart = byteOffset(pcm, a.startTime);
+    const aEnd = byteOffset(pcm, aEndTime);
+    const bStart = byteOffset(pcm, bStartTime);
+    const bEnd = byteOffset(pcm, b.endTime);
+    newPcm = concatPcm([
+      pcm.subarray(0, aStart),
+      pcm.subarray(bStart, bEnd),
+      pcm.subarray(aEnd, bStart),
+      pcm.subarray(aStart, aEnd),
+      pcm.subarray(bEnd),
+    ]);
+  }
+
+  const reordered = [...segments];
+  reordered[firstIndex] = movedB;
+  reordered[firstIndex + 1] = movedA;
+  return { segments: renumber(reordered), pcm: newPcm };
+};
+
+/**
+ * Replaces a segment's audio region with new PCM and shifts every later segment
+ * by the change in length.
+ */
+export const spliceSegmentAudio = (
+  track: EditableTrack,
+  index: number,
+  replacement: Uint8Array
+): EditableTrack => {
+  const { segments, pcm } = track;
+  const seg = segments[index];
+  if (!seg || !pcm) return track;
+
+  const start = byteOffset(pcm, seg.startTime);
+  const end = byteOffset(pcm, seg.endTime);
+  const newPcm = concatPcm([pcm.subarray(0, start), replacement, pcm.subarray(end)]);
+
+  const newEnd = start / BYTES_PER_SAMPLE / SAMPLE_RATE + pcmDuration(replacement);
+  const delta = newEnd - seg.endTime;
+
+  const { overrun: _overrun, ...rest } = seg;
+  const shifted = segments.map((s, i) => {
+    if (i < index) return s;
+    if (i === index) return { ...rest, endTime: newEnd };
+    return { ...s, startTime: s.startTime + delta, endTime: s.endTime + delta };
+  });
+
+  return { segments: shifted, pcm: newPcm };
+};
+
+/**
+ * Removes a segment and, when audio is present, its speech: the part of its region no
+ * neighbour overlaps is cut and every later segment moves back by the cut length.
+ */
+export const deleteSegment = (track: EditableTrack, index: number): EditableTrack => {
+  const { segments, pcm } = track;
+  const seg = segments[index];
+  if (!seg) return track;
+
+  const from = Math.max(seg.startTime, segments[index - 1]?.endTime ?? 0);
+  const to = Math.min(seg.endTime, segments[index + 1]?.startTime ?? Infinity);
+  if (!pcm || to <= from) {
+    return { segments: renumber(segments.filter((_, i) => i !== index)), pcm };
+  }
+
+  const start = byteOffset(pcm, from);
+  const end = byteOffset(pcm, to);
+  const removed = (end - start) / BYTES_PER_SAMPLE / SAMPLE_RATE;
+  const remaining = segments.flatMap((s, i) => {
+    if (i < index) return [s];
+    if (i === index) return [];
+    return [{ ...s, startTime: s.startTime - removed, endTime: s.endTime - removed }];
+  });
+  return { segments: renumber(remaining), pcm: concatPcm([pcm.subarray(0, start), pcm.subarray(end)]) };
+};
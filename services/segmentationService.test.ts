@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { SegmentationRules, SubtitleSegment } from '../types';
+import { applySegmentationRules, validateSegments, wrapLines, DEFAULT_SEGMENTATION_RULES } from './segmentationService';
+
+const rules: SegmentationRules = { ...DEFAULT_SEGMENTATION_RULES, enabled: true };
+
+const cue = (original: string, startTime: number, endTime: number, id = 0): SubtitleSegment => ({
+  id,
+  original,
+  translations: {},
+  startTime,
+  endTime
+});
+
+describe('wrapLines', () => {
+  it('wraps at spaces without exceeding the limit', () => {
+    expect(wrapLines('The quick brown fox jumps over the lazy dog', 15)).toEqual([
+      'The quick brown',
+      'fox jumps over',
+      'the lazy dog'
+    ]);
+  });
+
+  it('wraps CJK text at any character', () => {
+    expect(wrapLines('今日はとても良い天気ですね', 5)).toEqual(['今日はとて', 'も良い天気', 'ですね']);
+  });
+
+  it('counts characters outside the BMP once', () => {
+    expect(wrapLines('𠀋𠀋𠀋日本', 3)).toEqual(['𠀋𠀋𠀋', '日本']);
+  });
+});
+
+describe('applySegmentationRules', () => {
+  it('splits an overlong cue at the sentence end nearest the middle', () => {
+    const text = 'This first sentence is long already. The second one is about as long too.';
+    const result = applySegmentationRules([cue(text, 0, 6)], { ...rules, maxCharsPerLine: 42, maxLines: 1 });
+
+    expect(result.map(seg => seg.original)).toEqual([
+      'This first sentence is long already.',
+      'The second one is about as long too.'
+    ]);
+    expect(result[0].startTime).toBe(0);
+    expect(result[0].endTime).toBe(result[1].startTime);
+    expect(result[1].endTime).toBe(6);
+    expect(result.map(seg => seg.id)).toEqual([0, 1]);
+  });
+
+  it('splits a cue that lasts longer than the maximum', () => {
+    const result = applySegmentationRules([cue('Slow words, spoken with long pauses', 0, 10)], rules);
+
+    expect(result).toHaveLength(2);
+    result.forEach(seg => expect(seg.endTime - seg.startTime).toBeLessThanOrEqual(rules.maxDuration));
+  });
+
+  it('leaves a spaced-script word that cannot be broken whole and reports it', () => {
+    const narrow = { ...rules, maxCharsPerLine: 10, maxLines: 1 };
+    const result = applySegmentationRules([cue('Donaudampfschifffahrtsgesellschaft', 0, 3)], narrow);
+
+    expect(result.map(seg => seg.original)).toEqual(['Donaudampfschifffahrtsgesellschaft']);
+    expect(validateSegments(result, narrow).map(v => v.rule)).toContain('line-length');
+  });
+
+  it('stretches a short cue into the gap before the next one', () => {
+    const result = applySegmentationRules([cue('Hi there.', 0, 0.3), cue('And welcome back.', 2, 3.5, 1)], rules);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].endTime).toBe(rules.minDuration);
+    expect(result[1].startTime).toBe(2);
+  });
+
+  it('merges a cue too short to read with a close neighbour', () => {
+    const result = applySegmentationRules([cue('Yes.', 0, 0.4), cue('I think so.', 0.4, 1.6, 1)], rules);
+
+    expect(result.map(seg => seg.original)).toEqual(['Yes. I think so.']);
+    expect(result[0].endTime).toBe(1.6);
+  });
+
+  it('does not merge across a gap longer than half a second', () => {
+    const segments = [cue('Yes.', 0, 0.4), cue('I think so.', 0.4, 1.6, 1), cue('Wait.', 3, 3.3, 2)];
+    const result = applySegmentationRules(segments, { ...rules, minDuration: 1.5 });
+
+    expect(result.map(seg => seg.original)).toEqual(['Yes. I think so.', 'Wait.']);
+    expect(result[1].startTime).toBe(3);
+  });
+});
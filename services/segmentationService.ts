@@ -0,0 +1,211 @@
+import { Language, RuleViolation, SegmentationRules, SubtitleSegment } from "../types";
+import { splitSegment, mergeWithNext } from "./segmentEditService";
+import { isUnspacedScript } from "./languageService";
+
+/**
+ * Subtitle readability rules: a deterministic pass that splits, stretches and merges
+ * timed segments to fit them, and a validator for whatever still does not.
+ */
+
+// Common broadcast limits: two lines of 42 characters, 17 characters per second
+export const DEFAULT_SEGMENTATION_RULES: SegmentationRules = {
+  enabled: false,
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxCps: 17,
+  minDuration: 1,
+  maxDuration: 7,
+};
+
+// Break preferences when splitting: sentence ends over clause breaks over plain spaces
+const SENTENCE_END = /[.!?…。！？]/;
+const CLAUSE_BREAK = /[,;:、，；：]/;
+
+// Cues separated by a longer pause are never merged, so a cue does not span silence
+const MAX_MERGE_GAP = 0.5;
+
+const textLength = (text: string) => [...text.replace(/\s+/g, ' ').trim()].length;
+
+/**
+ * Greedy line wrap. Scripts without spaces wrap at any character; a single word
+ * longer than the limit stays on its own (overlong) line.
+ */
+export const wrapLines = (text: string, maxChars: number): string[] => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return [];
+  if (isUnspacedScript(clean) && !clean.includes(' ')) {
+    const chars = [...clean];
+    const lines: string[] = [];
+    for (let i = 0; i < chars.length; i += maxChars) lines.push(chars.slice(i, i + maxChars).join(''));
+    return lines;
+  }
+
+  const lines: string[] = [];
+  let line = '';
+  for (const word of clean.split(' ')) {
+    if (line && textLength(`${line} ${word}`) > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// The original plus every translation, each checked on its own
+const cueTexts = (seg: SubtitleSegment): { language?: Language; text: string }[] => [
+  { text: seg.original },
+  ...(Object.entries(seg.translations) as [Language, string][])
+    .filter(([, text]) => text?.trim())
+    .map(([language, text]) => ({ language, text })),
+];
+
+const fitsLines = (text: string, rules: SegmentationRules): boolean => {
+  const lines = wrapLines(text, rules.maxCharsPerLine);
+  return lines.length <= rules.maxLines && lines.every(line => textLength(line) <= rules.maxCharsPerLine);
+};
+
+const duration = (seg: SubtitleSegment) => seg.endTime - seg.startTime;
+
+// Reading speed of the densest text in the cue
+const cps = (seg: SubtitleSegment) =>
+  Math.max(...cueTexts(seg).map(({ text }) => textLength(text))) / Math.max(duration(seg), 0.001);
+
+const fits = (seg: SubtitleSegment, rules: SegmentationRules) =>
+  cueTexts(seg).every(({ text }) => fitsLines(text, rules));
+
+/**
+ * Offset in `text` (UTF-16, for slicing) to split at: the break nearest the middle,
+ * preferring sentence ends, then clause punctuation, then spaces. Distances are measured
+ * in code points. Without any break, scripts written without spaces split at the middle
+ * character; other text returns null rather than cutting a word in half.
+ */
+const breakOffset = (text: string): number | null => {
+  const chars = [...text];
+  const middle = chars.length / 2;
+  // UTF-16 offset of every code point, plus the end
+  const offsets = [0];
+  for (const char of chars) offsets.push(offsets[offsets.length - 1] + char.length);
+
+  let best: number | null = null;
+  let bestScore = Infinity;
+  for (let i = 1; i < chars.length - 1; i++) {
+    let weight = 0;
+    if (SENTENCE_END.test(chars[i]) && !/[\p{L}\p{N}]/u.test(chars[i + 1])) weight = 0.25;
+    else if (CLAUSE_BREAK.test(chars[i])) weight = 0.5;
+    else if (/\s/.test(chars[i])) weight = 1;
+    if (!weight) continue;
+
+    // Punctuation stays with the first half
+    const at = /\s/.test(chars[i]) ? i : i + 1;
+    const score = Math.abs(at - middle) * weight;
+    if (score < bestScore) {
+      best = offsets[at];
+      bestScore = score;
+    }
+  }
+  if (best === null && isUnspacedScript(text)) best = offsets[Math.round(middle)];
+  return best;
+};
+
+/**
+ * Reshapes timed segments to satisfy the rules:
+ * 1. cues whose text needs too many lines, or that last too long, are split in two at a break
+ *    (repeatedly);
+ * 2. cues that are too short or too fast to read are stretched into the gap before the next cue;
+ * 3. cues still too short or too fast are merged with a neighbour when the result fits.
+ * Segments with a spoken translation are left alone, since their audio layout depends on them.
+ * Split times are estimated from text length, so run this on the final track, after any
+ * step that cuts the audio at segment boundaries.
+ */
+export const applySegmentationRules = (segments: SubtitleSegment[], rules: SegmentationRules): SubtitleSegment[] => {
+  let result = segments;
+
+  // 1. Split
+  for (let i = 0; i < result.length; ) {
+    const seg = result[i];
+    const needsSplit = !seg.spokenTranslation && (!fits(seg, rules) || duration(seg) > rules.maxDuration);
+    // A cue with nowhere to break stays whole; validateSegments reports it
+    const offset = needsSplit ? breakOffset(seg.original) : null;
+    const next = offset === null ? result : splitSegment(result, i, offset);
+    if (next === result) i++;
+    result = next;
+  }
+
+  // 2. Stretch into following gaps, never past the next cue or the longest allowed duration
+  result = result.map((seg, i) => {
+    const following = result[i + 1];
+    if (!following) return seg;
+    const longest = Math.max(...cueTexts(seg).map(({ text }) => textLength(text)));
+    const wanted = seg.startTime + Math.max(rules.minDuration, longest / rules.maxCps);
+    const endTime = Math.min(wanted, following.startTime, seg.startTime + rules.maxDuration);
+    return endTime > seg.endTime ? { ...seg, endTime } : seg;
+  });
+
+  // 3. Merge
+  const unreadable = (seg: SubtitleSegment) => duration(seg) < rules.minDuration || cps(seg) > rules.maxCps;
+  const mergeable = (a: SubtitleSegment, b: SubtitleSegment) =>
+    !a.spokenTranslation && !b.spokenTranslation && a.speaker === b.speaker && b.startTime - a.endTime <= MAX_MERGE_GAP;
+  const improves = (seg: SubtitleSegment, merged: SubtitleSegment) =>
+    fits(merged, rules) && duration(merged) <= rules.maxDuration &&
+    (duration(seg) < rules.minDuration || cps(merged) < cps(seg));
+
+  for (let i = 0; i < result.length; ) {
+    const seg = result[i];
+    if (unreadable(seg)) {
+      const withNext = result[i + 1] && mergeable(seg, result[i + 1]) ? mergeWithNext(result, i) : null;
+      if (withNext && improves(seg, withNext[i])) {
+        result = withNext;
+        continue;
+      }
+      const withPrevious = i > 0 && mergeable(result[i - 1], seg) ? mergeWithNext(result, i - 1) : null;
+      if (withPrevious && improves(seg, withPrevious[i - 1])) {
+        result = withPrevious;
+        i--;
+        continue;
+      }
+    }
+    i++;
+  }
+
+  return result;
+};
+
+/**
+ * Lists every rule each cue breaks, per language for the text limits.
+ */
+export const validateSegments = (segments: SubtitleSegment[], rules: SegmentationRules): RuleViolation[] => {
+  const violations: RuleViolation[] = [];
+  segments.forEach((seg, segmentIndex) => {
+    const length = duration(seg);
+    for (const { language, text } of cueTexts(seg)) {
+      const lines = wrapLines(text, rules.maxCharsPerLine);
+      if (!fitsLines(text, rules)) {
+        violations.push({
+          segmentIndex,
+          rule: 'line-length',
+          language,
+          message: `${language ?? 'Original'} needs ${lines.length} line${lines.length === 1 ? '' : 's'} of up to ${rules.maxCharsPerLine} characters (max ${rules.maxLines})`,
+        });
+      }
+      const speed = textLength(text) / Math.max(length, 0.001);
+      if (speed > rules.maxCps) {
+        violations.push({
+          segmentIndex,
+          rule: 'reading-speed',
+          language,
+          message: `${language ?? 'Original'} reads at ${speed.toFixed(1)} characters/s (max ${rules.maxCps})`,
+        });
+      }
+    }
+    if (length < rules.minDuration) {
+      violations.push({ segmentIndex, rule: 'min-duration', message: `Shown for ${length.toFixed(2)}s (min ${rules.minDuration}s)` });
+    }
+    if (length > rules.maxDuration) {
+      violations.push({ segmentIndex, rule: 'max-duration', message: `Shown for ${length.toFixed(2)}s (max ${rules.maxDuration}s)` });
+    }
+  });
+  return violations;
+};
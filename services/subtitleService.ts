@@ -0,0 +1,238 @@
+import { Language, LANGUAGES, SubtitleSegment, SubtitleFormat, SubtitleTrack } from "../types";
+import { InvalidFileError } from "./errors";
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa',
+};
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+/**
+ * Formats seconds as HH:MM:SS<sep>mmm (SRT uses ',' and WebVTT uses '.').
+ */
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+/**
+ * ASS timestamps are H:MM:SS.cc (centiseconds).
+ */
+const formatAssTimestamp = (seconds: number) => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(totalCs / 360000);
+  const m = Math.floor((totalCs % 360000) / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  return `${h}:${pad(m)}:${pad(s)}.${pad(cs)}`;
+};
+
+/**
+ * Every translation language present in the segments, in registry order.
+ */
+export const segmentLanguages = (segments: SubtitleSegment[]): Language[] =>
+  LANGUAGES.map(l => l.id).filter(lang => segments.some(seg => seg.translations[lang] !== undefined));
+
+/**
+ * Picks the text lines of a segment for the requested track.
+ * Translations are stacked in the order of `languages`.
+ */
+const cueLines = (seg: SubtitleSegment, track: SubtitleTrack, languages: Language[]): string[] => {
+  const lines: string[] = [];
+  if (track !== 'translated') lines.push(seg.original);
+  if (track !== 'original') {
+    for (const lang of languages) lines.push(seg.translations[lang] ?? '');
+  }
+  // Collapse embedded newlines so each language stays on its own line
+  return lines.map(line => line.replace(/\s*\n\s*/g, ' ').trim()).filter(Boolean);
+};
+
+/**
+ * Prefixes the first line of a cue with its speaker, formatted by `label`.
+ */
+const withSpeaker = (lines: string[], speaker: string | undefined, label: (speaker: string) => string): string[] =>
+  speaker && lines.length > 0 ? [`${label(speaker)}${lines[0]}`, ...lines.slice(1)] : lines;
+
+export const toSrt = (
+  segments: SubtitleSegment[],
+  track: SubtitleTrack = 'both',
+  languages: Language[] = segmentLanguages(segments)
+): string => {
+  return segments
+    .map((seg, idx) => [
+      `${idx + 1}`,
+      `${formatTimestamp(seg.startTime, ',')} --> ${formatTimestamp(seg.endTime, ',')}`,
+      ...withSpeaker(cueLines(seg, track, languages), seg.speaker, speaker => `${speaker}: `),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+};
+
+export const toVtt = (
+  segments: SubtitleSegment[],
+  track: SubtitleTrack = 'both',
+  languages: Language[] = segmentLanguages(segments)
+): string => {
+  // Cue text is HTML-like; escaping markup characters also neutralises '-->'
+  const escape = (line: string) =>
+    line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  const cues = segments.map((seg, idx) => [
+    `${idx + 1}`,
+    `${formatTimestamp(seg.startTime, '.')} --> ${formatTimestamp(seg.endTime, '.')}`,
+    // Speakers use WebVTT voice spans
+    ...withSpeaker(cueLines(seg, track, languages).map(escape), seg.speaker, speaker => `<v ${escape(speaker)}>`),
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+/**
+ * Builds an ASS script with separate styles for the original and translation lines,
+ * so editors can restyle or reposition each language before burning in.
+ */
+export const toAss = (
+  segments: SubtitleSegment[],
+  track: SubtitleTrack = 'both',
+  languages: Language[] = segmentLanguages(segments)
+): string => {
+  const escape = (line: string) => line.replace(/\\/g, '\\\\').replace(/[{}]/g, '');
+
+  const header = [
+    '[Script Info]',
+    'Title: LinguaVoice AI',
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Original,Arial,64,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,60,1',
+    'Style: Translated,Arial,52,&H0000E5FF,&H000000FF,&H00000000,&H80000000,0,1,0,0,100,100,0,0,1,3,1,2,60,60,60,1',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = segments.map(seg => {
+    const start = formatAssTimestamp(seg.startTime);
+    const end = formatAssTimestamp(seg.endTime);
+    const style = track === 'translated' ? 'Translated' : 'Original';
+    const text = cueLines(seg, track, languages)
+      .map((line, i) => {
+        // Stack translations under the original with an inline style reset
+        const escaped = escape(line);
+        return track === 'both' && i === 1 ? `{\\rTranslated}${escaped}` : escaped;
+      })
+      .join('\\N');
+    const name = (seg.speaker ?? '').replace(/,/g, ' ');
+    return `Dialogue: 0,${start},${end},${style},${name},0,0,0,,${text}`;
+  });
+
+  return [...header, ...events].join('\n') + '\n';
+};
+
+/**
+ * Serializes segments to the requested subtitle format.
+ */
+export const formatSubtitles = (
+  segments: SubtitleSegment[],
+  format: SubtitleFormat,
+  track: SubtitleTrack = 'both',
+  languages: Language[] = segmentLanguages(segments)
+): string => {
+  switch (format) {
+    case 'srt':
+      return toSrt(segments, track, languages);
+    case 'vtt':
+      return toVtt(segments, track, languages);
+    case 'ass':
+      return toAss(segments, track, languages);
+  }
+};
+
+export const subtitlesToBlob = (
+  segments: SubtitleSegment[],
+  format: SubtitleFormat,
+  track: SubtitleTrack = 'both',
+  languages: Language[] = segmentLanguages(segments)
+): Blob => {
+  return new Blob([formatSubtitles(segments, format, track, languages)], {
+    type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8`,
+  });
+};
+
+/**
+ * Parses "HH:MM:SS,mmm", "HH:MM:SS.mmm" or the WebVTT short form "MM:SS.mmm" into seconds.
+ */
+const parseTimestamp = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!match) {
+    throw new InvalidFileError(`Invalid subtitle timestamp: "${value}"`);
+  }
+  const [, h = '0', m, s, ms] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + Number(ms.padEnd(3, '0')) / 1000;
+};
+
+// Strips inline markup such as <i>, <c.yellow>, <00:01.000> and SSA override blocks like {\an8}
+const stripCueMarkup = (text: string) =>
+  text
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Parses an SRT or WebVTT file into segments that keep the file's cue timings.
+ * `translations` is left empty to be filled by translation.
+ */
+export const parseSubtitles = (content: string): SubtitleSegment[] => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const segments: SubtitleSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    // Skips the WEBVTT header, NOTE/STYLE/REGION blocks and stray index lines
+    if (timingIndex === -1) continue;
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->');
+    const startTime = parseTimestamp(startRaw);
+    // WebVTT cue settings (e.g. "align:start") follow the end timestamp
+    const endTime = parseTimestamp(endRaw.trim().split(/\s+/)[0]);
+
+    const original = lines
+      .slice(timingIndex + 1)
+      .map(line => stripCueMarkup(line).trim())
+      .filter(Boolean)
+      .join(' ');
+    if (!original) continue;
+
+    segments.push({
+      id: segments.length,
+      original,
+      translations: {},
+      startTime,
+      endTime,
+    });
+  }
+
+  if (segments.length === 0) {
+    throw new InvalidFileError("No subtitle cues found. Please provide a valid SRT or WebVTT file.");
+  }
+
+  return segments;
+};
@@ -0,0 +1,6 @@
+/**
+ * Small string helpers shared by the text services.
+ */
+
+// Escapes a literal string for use inside a RegExp source
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,68 @@
+import { SAMPLE_RATE } from "./audioUtils";
+import { decodePcm16 } from "./alignmentService";
+
+/**
+ * Peak data for drawing waveforms. Each level stores the absolute peak (0..1) of
+ * consecutive buckets of `samplesPerPeak` samples; coarser levels suit zoomed-out views.
+ */
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  peaks: Float32Array;
+}
+
+// ~10.7 ms per peak at 24 kHz, then each level is 4x coarser
+const BASE_SAMPLES_PER_PEAK = 256;
+const LEVEL_FACTOR = 4;
+const LEVEL_COUNT = 5;
+
+export const computePeakLevels = (pcm: Uint8Array): PeakLevel[] => {
+  const samples = decodePcm16(pcm);
+  const base = new Float32Array(Math.ceil(samples.length / BASE_SAMPLES_PER_PEAK));
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    const bucket = Math.floor(i / BASE_SAMPLES_PER_PEAK);
+    if (value > base[bucket]) base[bucket] = value;
+  }
+
+  const levels: PeakLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, peaks: base }];
+  for (let level = 1; level < LEVEL_COUNT; level++) {
+    const previous = levels[level - 1];
+    const peaks = new Float32Array(Math.ceil(previous.peaks.length / LEVEL_FACTOR));
+    for (let i = 0; i < previous.peaks.length; i++) {
+      const bucket = Math.floor(i / LEVEL_FACTOR);
+      if (previous.peaks[i] > peaks[bucket]) peaks[bucket] = previous.peaks[i];
+    }
+    levels.push({ samplesPerPeak: previous.samplesPerPeak * LEVEL_FACTOR, peaks });
+  }
+  return levels;
+};
+
+/**
+ * Reduces peak data to one value per pixel column for the time window
+ * [start, start + span), using the coarsest level that still has enough detail.
+ */
+export const peaksForView = (
+  levels: PeakLevel[],
+  start: number,
+  span: number,
+  columns: number
+): Float32Array => {
+  const result = new Float32Array(Math.max(0, columns));
+  if (levels.length === 0 || columns <= 0 || span <= 0) return result;
+
+  const samplesPerColumn = (span * SAMPLE_RATE) / columns;
+  const level = [...levels].reverse().find(l => l.samplesPerPeak <= samplesPerColumn) ?? levels[0];
+  const peaksPerSecond = SAMPLE_RATE / level.samplesPerPeak;
+
+  for (let column = 0; column < columns; column++) {
+    const from = Math.floor((start + (column / columns) * span) * peaksPerSecond);
+    const to = Math.max(from + 1, Math.floor((start + ((column + 1) / columns) * span) * peaksPerSecond));
+    let peak = 0;
+    for (let i = Math.max(0, from); i < Math.min(to, level.peaks.length); i++) {
+      if (level.peaks[i] > peak) peak = level.peaks[i];
+    }
+    result[column] = peak;
+  }
+  return result;
+};
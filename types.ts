@@ -1,31 +1,271 @@
 export enum Language {
   ENGLISH = 'English',
-  VIETNAMESE = 'Vietnamese'
+  VIETNAMESE = 'Vietnamese',
+  JAPANESE = 'Japanese',
+  SPANISH = 'Spanish',
+  FRENCH = 'French',
+  THAI = 'Thai'
 }
 
+export interface LanguageInfo {
+  id: Language;
+  code: string; // BCP 47 tag
+  nativeName: string;
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { id: Language.ENGLISH, code: 'en', nativeName: 'English' },
+  { id: Language.VIETNAMESE, code: 'vi', nativeName: 'Tiếng Việt' },
+  { id: Language.JAPANESE, code: 'ja', nativeName: '日本語' },
+  { id: Language.SPANISH, code: 'es', nativeName: 'Español' },
+  { id: Language.FRENCH, code: 'fr', nativeName: 'Français' },
+  { id: Language.THAI, code: 'th', nativeName: 'ไทย' },
+];
+
+// Source selection can defer to detection from the input text
+export const AUTO_DETECT = 'auto';
+export type SourceLanguage = Language | typeof AUTO_DETECT;
+
+// Target language -> translated text
+export type Translations = Partial<Record<Language, string>>;
+
 export interface SubtitleSegment {
   id: number;
   original: string;
-  translated: string;
+  translations: Translations;
   startTime: number;
   endTime: number;
+  // Seconds by which synthesized speech exceeds the cue window (imported subtitles only)
+  overrun?: number;
+  // Speaker tag from a dialogue script
+  speaker?: string;
+  // Dual-language tracks: the translation is spoken after the original, starting `offset` seconds into the segment
+  spokenTranslation?: { language: Language; offset: number };
+  // Source text with speech markup ([pause 1s], *emphasis*, {word|respelling}); `original` is its display form
+  markup?: string;
+}
+
+// Required rendering of a source term in each target language; `keep` terms stay untranslated
+export interface GlossaryEntry {
+  term: string;
+  translations: Translations;
+  keep?: boolean;
+}
+
+// A segment whose translation does not render a glossary term as required
+export interface GlossaryIssue {
+  segmentIndex: number;
+  term: string;
+  language: Language;
+  expected: string;
+}
+
+// Readability limits for subtitle cues; the character limits apply to each language's text separately
+export interface SegmentationRules {
+  enabled: boolean;
+  maxCharsPerLine: number;
+  maxLines: number;
+  // Reading speed limit in characters per second
+  maxCps: number;
+  minDuration: number;
+  maxDuration: number;
+}
+
+export type SegmentationRule = 'line-length' | 'reading-speed' | 'min-duration' | 'max-duration';
+
+// A cue that breaks a segmentation rule, with the offending language (absent for the original)
+export interface RuleViolation {
+  segmentIndex: number;
+  rule: SegmentationRule;
+  language?: Language;
+  message: string;
+}
+
+// Pronunciation override applied to every TTS request of a project
+export interface LexiconEntry {
+  word: string;
+  respelling: string;
 }
 
 export interface VoiceOption {
   name: string;
   id: string;
   gender: 'Male' | 'Female';
+  // Languages this voice reads naturally
+  languages: Language[];
 }
 
+const ALL_LANGUAGES = Object.values(Language);
+
 export const VOICES: VoiceOption[] = [
-  { name: 'Puck', id: 'Puck', gender: 'Male' },
-  { name: 'Charon', id: 'Charon', gender: 'Male' },
-  { name: 'Kore', id: 'Kore', gender: 'Female' },
-  { name: 'Fenrir', id: 'Fenrir', gender: 'Male' },
-  { name: 'Zephyr', id: 'Zephyr', gender: 'Female' },
+  { name: 'Puck', id: 'Puck', gender: 'Male', languages: ALL_LANGUAGES },
+  { name: 'Charon', id: 'Charon', gender: 'Male', languages: [Language.ENGLISH, Language.SPANISH, Language.FRENCH] },
+  { name: 'Kore', id: 'Kore', gender: 'Female', languages: ALL_LANGUAGES },
+  { name: 'Fenrir', id: 'Fenrir', gender: 'Male', languages: [Language.ENGLISH, Language.VIETNAMESE, Language.THAI] },
+  { name: 'Zephyr', id: 'Zephyr', gender: 'Female', languages: [Language.ENGLISH, Language.VIETNAMESE, Language.JAPANESE, Language.THAI] },
+  { name: 'Aoede', id: 'Aoede', gender: 'Female', languages: [Language.ENGLISH, Language.SPANISH, Language.FRENCH, Language.JAPANESE] },
+  { name: 'Orus', id: 'Orus', gender: 'Male', languages: [Language.ENGLISH, Language.JAPANESE, Language.SPANISH] },
 ];
 
+// 'single' speaks the whole text in one TTS call; 'per-segment' renders each segment separately
+export type SynthesisMode = 'single' | 'per-segment';
+
+// Whether the translation is spoken too: after each original sentence, as a separate track, or both
+export type TranslationAudioMode = 'off' | 'interleaved' | 'translated' | 'both';
+
+export interface ProcessOptions {
+  synthesisMode?: SynthesisMode;
+  // Silence in seconds inserted between segments in 'per-segment' mode
+  segmentGap?: number;
+  lexicon?: LexiconEntry[];
+  glossary?: GlossaryEntry[];
+  signal?: AbortSignal;
+}
+
+export type AudioExportFormat = 'wav' | 'mp3' | 'opus' | 'flac';
+
+export interface AudioExportOptions {
+  format: AudioExportFormat;
+  // Output sample rate; the source is always 24kHz
+  sampleRate: number;
+  // Duplicate the mono track into two channels
+  stereo: boolean;
+}
+
+// Post-processing applied to generated speech before playback and export
+export interface PostProcessSettings {
+  enabled: boolean;
+  // Integrated loudness target (ITU-R BS.1770)
+  targetLufs: number;
+  // Pauses longer than this (seconds) are shortened to it; 0 leaves pauses alone
+  maxSilence: number;
+  // Silence kept before the first and after the last word (seconds)
+  edgeSilence: number;
+  fadeMs: number;
+  // Background music level relative to the speech target (LU)
+  musicLevel: number;
+  // Extra attenuation of the music while speech is playing (dB)
+  duckDepth: number;
+}
+
+// Learner drill: replay each sentence `repeats` times, pausing for shadowing after each play
+export interface DrillSettings {
+  enabled: boolean;
+  repeats: number;
+  // Shadowing pause as a multiple of the sentence length; 0 disables it
+  pauseFactor: number;
+}
+
+// A-B repeat range in seconds
+export interface LoopRange {
+  start: number;
+  end: number;
+}
+
+// Subtitles together with the audio they describe, as edited in the subtitle editor
+export interface EditableTrack {
+  segments: SubtitleSegment[];
+  pcm: Uint8Array | null;
+}
+
+// Stage counters for a chunked generation job
+export interface JobProgress {
+  total: number;
+  translated: number;
+  synthesized: number;
+}
+
+export interface ChunkResult {
+  segments: SubtitleSegment[];
+  pcm: Uint8Array;
+}
+
+/**
+ * Long input split into chunks. `results` fills in as chunks finish, so a failed or
+ * cancelled job can be resumed from where it stopped.
+ */
+export interface ChunkJob {
+  chunks: string[];
+  results: (ChunkResult | null)[];
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+// One text of a batch run; `language` and `voiceId` override the batch defaults when set
+export interface BatchItem {
+  id: string;
+  text: string;
+  language?: Language;
+  voiceId?: string;
+  status: BatchItemStatus;
+  error?: string;
+  // Output plus the source language and voice it was generated with
+  result?: ChunkResult & { language: Language; voiceId: string };
+}
+
 export interface GenerationResult {
   audioBase64: string;
   segments: SubtitleSegment[];
-}
\ No newline at end of file
+}
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+// Which text lines end up in an exported cue
+export type SubtitleTrack = 'original' | 'translated' | 'both';
+
+
+/**
+ * A translation + speech backend. Gemini is the default; the mock provider runs offline.
+ */
+export interface AIProvider {
+  id: string;
+  name: string;
+  translationModel: string;
+  ttsModel: string;
+  // Splits free text into subtitle segments and translates each one into every target, following the glossary
+  translateAndSegment(text: string, sourceLang: Language, targetLangs: Language[], signal?: AbortSignal, glossary?: GlossaryEntry[]): Promise<SubtitleSegment[]>;
+  // Translates already-segmented lines one-to-one into every target, preserving order
+  translateLines(lines: string[], sourceLang: Language, targetLangs: Language[], signal?: AbortSignal, glossary?: GlossaryEntry[]): Promise<Translations[]>;
+  // Returns base64 raw PCM (24kHz, 16-bit, Mono)
+  generateSpeech(text: string, voiceName: string, signal?: AbortSignal): Promise<string>;
+}
+
+export interface ProjectSettings {
+  sourceSelection: SourceLanguage;
+  targetLangs: Language[];
+  voiceId: string;
+  providerId: string;
+  synthesisMode: SynthesisMode;
+  segmentGap: number;
+  // Dialogue mode; absent in projects saved before it existed
+  dialogueMode?: boolean;
+  // Speaker tag -> voice id
+  speakerVoices?: Record<string, string>;
+  translationAudio?: TranslationAudioMode;
+  translationVoiceId?: string;
+  translationPause?: number;
+  postProcess?: PostProcessSettings;
+  lexicon?: LexiconEntry[];
+  glossary?: GlossaryEntry[];
+  segmentation?: SegmentationRules;
+}
+
+/**
+ * A saved generation: everything needed to restore the app without calling the provider again.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  inputText: string;
+  // Cues of an imported subtitle file, when the project re-voices one
+  importedCues: SubtitleSegment[] | null;
+  importedFileName: string | null;
+  settings: ProjectSettings;
+  segments: SubtitleSegment[];
+  // Raw PCM (24kHz, 16-bit, Mono); null until audio has been generated
+  pcm: Uint8Array | null;
+}
+
+// Listing entry without the (potentially large) audio
+export type ProjectSummary = Omit<Project, 'pcm'> & { duration: number };
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+// Node build of the library entry point and the CLI; dependencies stay external
+export default defineConfig({
+  build: {
+    ssr: true,
+    target: 'node20',
+    outDir: 'dist-node',
+    rollupOptions: {
+      input: {
+        lib: 'lib.ts',
+        cli: 'cli.ts',
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+      },
+    },
+  },
+});
@@ -0,0 +1,45 @@
+import { AudioExportOptions } from '../types';
+import { prepareChannels, encodeWav, encodeMp3, encodeFlac } from '../services/audioEncoders';
+
+export interface EncodeRequest {
+  pcm: Uint8Array;
+  options: AudioExportOptions;
+  // Codec module and binary URLs, resolved on the main thread: a module worker does not
+  // inherit the page's import map, so bare specifiers would not load here
+  encoderUrls?: EncoderUrls;
+}
+
+export interface EncoderUrls {
+  mp3?: string;
+  flac?: string;
+  flacWasm?: string;
+}
+
+export type EncodeResponse = { data: Uint8Array } | { error: string };
+
+/**
+ * Encodes a track to WAV, MP3 or FLAC off the main thread. Opus has its own worker.
+ */
+self.onmessage = async (event: MessageEvent<EncodeRequest>) => {
+  const { pcm, options, encoderUrls = {} } = event.data;
+  try {
+    const channels = prepareChannels(pcm, options);
+    let data: Uint8Array;
+    switch (options.format) {
+      case 'mp3':
+        data = await encodeMp3(channels, options.sampleRate, encoderUrls.mp3);
+        break;
+      case 'flac':
+        data = await encodeFlac(channels, options.sampleRate, encoderUrls.flac, encoderUrls.flacWasm);
+        break;
+      case 'wav':
+        data = encodeWav(channels, options.sampleRate);
+        break;
+      default:
+        throw new Error(`Unsupported format: ${options.format}`);
+    }
+    self.postMessage({ data } as EncodeResponse, { transfer: [data.buffer] });
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) } as EncodeResponse);
+  }
+};
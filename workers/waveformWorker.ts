@@ -0,0 +1,10 @@
+import { computePeakLevels } from '../services/waveformService';
+
+/**
+ * Computes waveform peaks off the main thread. Receives raw PCM and replies with
+ * every peak level, transferring the buffers instead of copying them.
+ */
+self.onmessage = (event: MessageEvent<Uint8Array>) => {
+  const levels = computePeakLevels(event.data);
+  self.postMessage(levels, { transfer: levels.map(level => level.peaks.buffer) });
+};